@@ -159,6 +159,20 @@ class Database {
     };
   }
 
+  // Trừ xu cho dịch vụ trong game (gợi ý...) - không tính vào thống kê; null nếu không đủ xu
+  spendCoins(nickname: string, amount: number): PlayerData | null {
+    const normalizedNickname = nickname.toLowerCase().trim();
+    const player = this.getOrCreatePlayer(nickname);
+    if (player.coins < amount) return null;
+
+    player.coins -= amount;
+    this.data.players[normalizedNickname] = player;
+    this.saveData();
+
+    console.log(`Player ${nickname} spent ${amount} coins (${player.coins} left)`);
+    return player;
+  }
+
   // Lấy top players by coins
   getTopPlayers(limit: number = 10): PlayerData[] {
     return Object.values(this.data.players)
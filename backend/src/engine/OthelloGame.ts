@@ -0,0 +1,215 @@
+import {
+  boardToBits,
+  bitsToBoard,
+  fromSquare,
+  getFlips,
+  getMoveMask,
+  playMove,
+  popCount,
+  sidesFor,
+  squaresOf,
+  toSquare
+} from './bitboard';
+import { searchBestMove, SearchOptions } from './search';
+import { solveEndgame } from './endgame';
+import { getBookMove } from './openingBook';
+import { mctsBestMove, MCTSOptions } from './mcts';
+
+export enum AIDifficulty {
+  EASY = 'easy',
+  MEDIUM = 'medium',
+  HARD = 'hard',
+  EXPERT = 'expert'
+}
+
+// Alpha-beta settings for HARD; the per-move budget is further capped by the turn timer
+export const HARD_SEARCH: SearchOptions = {
+  maxDepth: 14,
+  timeBudgetMs: 3000
+};
+
+// Monte Carlo tree search settings for EXPERT; stops at whichever budget runs out first
+export const EXPERT_SEARCH: MCTSOptions = {
+  maxPlayouts: 50000,
+  timeBudgetMs: 3000,
+  exploration: 0.5,  // lower than the textbook sqrt(2): leaf values come from short, low-noise playouts
+  playoutDepth: 2
+};
+
+// Empty squares at which each difficulty switches to the exact endgame solver (0 = never)
+export const ENDGAME_EMPTIES: Record<AIDifficulty, number> = {
+  [AIDifficulty.EASY]: 0,
+  [AIDifficulty.MEDIUM]: 0,
+  [AIDifficulty.HARD]: 12,
+  [AIDifficulty.EXPERT]: 12
+};
+
+// Difficulties that play from the opening book while the game is still in it
+export const USES_OPENING_BOOK: Record<AIDifficulty, boolean> = {
+  [AIDifficulty.EASY]: false,
+  [AIDifficulty.MEDIUM]: true,
+  [AIDifficulty.HARD]: true,
+  [AIDifficulty.EXPERT]: true
+};
+
+// Outcome of a perfectly played game from a given position
+export interface PerfectResult {
+  winner: 'black' | 'white' | 'draw';
+  margin: number;    // disc difference at the end
+  empties: number;   // empty squares in the solved position
+  toMove: 1 | 2;     // side to move in the solved position
+}
+
+// Othello game logic - static API over the bitboard engine, boards stay (number | null)[][]
+export class OthelloGame {
+  static createEmptyBoard(): (number | null)[][] {
+    const board = Array(8).fill(null).map(() => Array(8).fill(null));
+
+    board[3][3] = 2;
+    board[3][4] = 1;
+    board[4][3] = 1;
+    board[4][4] = 2;
+
+    return board;
+  }
+
+  static getValidMoves(board: (number | null)[][], player: number): number[][] {
+    const [own, opp] = sidesFor(boardToBits(board), player);
+    return squaresOf(getMoveMask(own, opp)).map(fromSquare);
+  }
+
+  static canPlacePiece(board: (number | null)[][], row: number, col: number, player: number): boolean {
+    if (row < 0 || row > 7 || col < 0 || col > 7) return false;
+    const [own, opp] = sidesFor(boardToBits(board), player);
+    return getFlips(own, opp, toSquare(row, col)) !== 0n;
+  }
+
+  static makeMove(board: (number | null)[][], row: number, col: number, player: number): (number | null)[][] {
+    const [own, opp] = sidesFor(boardToBits(board), player);
+    const [newOwn, newOpp] = playMove(own, opp, toSquare(row, col));
+    return player === 1 ? bitsToBoard(newOwn, newOpp) : bitsToBoard(newOpp, newOwn);
+  }
+
+  // Discs that a legal move at (row, col) would turn over, as [row, col] pairs
+  static getFlippedSquares(board: (number | null)[][], row: number, col: number, player: number): number[][] {
+    const [own, opp] = sidesFor(boardToBits(board), player);
+    return squaresOf(getFlips(own, opp, toSquare(row, col))).map(fromSquare);
+  }
+
+  static calculateScores(board: (number | null)[][]): { 1: number; 2: number } {
+    const { black, white } = boardToBits(board);
+    return { 1: popCount(black), 2: popCount(white) };
+  }
+
+  static isGameOver(board: (number | null)[][]): boolean {
+    const { black, white } = boardToBits(board);
+    return getMoveMask(black, white) === 0n && getMoveMask(white, black) === 0n;
+  }
+
+  // Longest per-move budget a difficulty will use; anything above it is cut to this
+  static maxTimeBudget(difficulty: AIDifficulty): number {
+    return difficulty === AIDifficulty.EXPERT ? EXPERT_SEARCH.timeBudgetMs : HARD_SEARCH.timeBudgetMs;
+  }
+
+  // Time budget is capped by the caller so the search always answers inside the turn timer.
+  // `useOpeningBook: false` asks for the engine's own choice, e.g. for a hint, instead of a random book line.
+  static async makeAIMove(board: (number | null)[][], player: number, difficulty: AIDifficulty, timeBudgetMs?: number, useOpeningBook = true): Promise<number[] | null> {
+    const validMoves = this.getValidMoves(board, player);
+    if (validMoves.length === 0) return null;
+
+    if (useOpeningBook && USES_OPENING_BOOK[difficulty]) {
+      const bookMove = getBookMove(board, player);
+      if (bookMove) return bookMove;
+    }
+
+    const maxBudget = this.maxTimeBudget(difficulty);
+    let budget = Math.min(maxBudget, timeBudgetMs ?? maxBudget);
+    if (this.countEmpties(board) <= ENDGAME_EMPTIES[difficulty]) {
+      // Leave half the budget for the heuristic search in case the solve doesn't finish
+      const solveStartedAt = Date.now();
+      const perfectMove = await this.makePerfectMove(board, player, budget / 2);
+      if (perfectMove) return perfectMove;
+      budget = Math.max(0, budget - (Date.now() - solveStartedAt));
+    }
+
+    switch (difficulty) {
+      case AIDifficulty.EASY:
+        return this.makeRandomMove(validMoves);
+      case AIDifficulty.MEDIUM:
+        return this.makeMediumMove(board, validMoves);
+      case AIDifficulty.HARD:
+        return this.makeHardMove(board, player, budget);
+      case AIDifficulty.EXPERT:
+        return this.makeExpertMove(board, player, budget);
+      default:
+        return this.makeRandomMove(validMoves);
+    }
+  }
+
+  static makeRandomMove(validMoves: number[][]): number[] {
+    return validMoves[Math.floor(Math.random() * validMoves.length)];
+  }
+
+  static makeMediumMove(board: (number | null)[][], validMoves: number[][]): number[] {
+    const corners = validMoves.filter(([r, c]) =>
+      (r === 0 || r === 7) && (c === 0 || c === 7)
+    );
+    if (corners.length > 0) {
+      return corners[Math.floor(Math.random() * corners.length)];
+    }
+
+    const edges = validMoves.filter(([r, c]) =>
+      r === 0 || r === 7 || c === 0 || c === 7
+    );
+    if (edges.length > 0) {
+      return edges[Math.floor(Math.random() * edges.length)];
+    }
+
+    return this.makeRandomMove(validMoves);
+  }
+
+  static async makeHardMove(board: (number | null)[][], player: number, timeBudgetMs?: number): Promise<number[] | null> {
+    const [own, opp] = sidesFor(boardToBits(board), player);
+    const result = await searchBestMove(own, opp, {
+      maxDepth: HARD_SEARCH.maxDepth,
+      timeBudgetMs: Math.min(HARD_SEARCH.timeBudgetMs, timeBudgetMs ?? HARD_SEARCH.timeBudgetMs)
+    });
+    return result ? fromSquare(result.square) : null;
+  }
+
+  static async makeExpertMove(board: (number | null)[][], player: number, timeBudgetMs?: number): Promise<number[] | null> {
+    const [own, opp] = sidesFor(boardToBits(board), player);
+    const result = await mctsBestMove(own, opp, {
+      ...EXPERT_SEARCH,
+      timeBudgetMs: Math.min(EXPERT_SEARCH.timeBudgetMs, timeBudgetMs ?? EXPERT_SEARCH.timeBudgetMs)
+    });
+    return result ? fromSquare(result.square) : null;
+  }
+
+  // Best move by exact solve; null if the solver ran out of time
+  static async makePerfectMove(board: (number | null)[][], player: number, timeBudgetMs: number): Promise<number[] | null> {
+    const [own, opp] = sidesFor(boardToBits(board), player);
+    const result = await solveEndgame(own, opp, timeBudgetMs);
+    return result && result.square !== null ? fromSquare(result.square) : null;
+  }
+
+  // Final result under perfect play by both sides, with `player` to move; null if the solver ran out of time
+  static async solvePosition(board: (number | null)[][], player: 1 | 2, timeBudgetMs: number): Promise<PerfectResult | null> {
+    const [own, opp] = sidesFor(boardToBits(board), player);
+    const result = await solveEndgame(own, opp, timeBudgetMs);
+    if (!result) return null;
+
+    const blackDiff = player === 1 ? result.score : -result.score;
+    return {
+      winner: blackDiff > 0 ? 'black' : blackDiff < 0 ? 'white' : 'draw',
+      margin: Math.abs(blackDiff),
+      empties: this.countEmpties(board),
+      toMove: player
+    };
+  }
+
+  static countEmpties(board: (number | null)[][]): number {
+    const { black, white } = boardToBits(board);
+    return 64 - popCount(black | white);
+  }
+}
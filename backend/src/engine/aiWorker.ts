@@ -0,0 +1,16 @@
+import { parentPort } from 'worker_threads';
+import { AI_WORKER_READY, AIWorkerJob, AIWorkerReply, runAITask } from './aiWorkerPool';
+
+// Worker thread entry: runs one AI task at a time for the pool
+parentPort?.on('message', async (job: AIWorkerJob) => {
+  let reply: AIWorkerReply;
+  try {
+    const result = await runAITask(job.task);
+    reply = { id: job.id, result };
+  } catch (error) {
+    reply = { id: job.id, result: null, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort?.postMessage(reply);
+});
+
+parentPort?.postMessage(AI_WORKER_READY);
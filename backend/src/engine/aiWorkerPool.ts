@@ -0,0 +1,288 @@
+import os from 'os';
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { OthelloGame, AIDifficulty, PerfectResult } from './OthelloGame';
+import { analyzeGame, AnalysisMove, MoveAnnotation } from './analysis';
+
+export interface AIMoveRequest {
+  board: (number | null)[][];
+  player: 1 | 2;
+  difficulty: AIDifficulty;
+  timeBudgetMs?: number;
+  useOpeningBook?: boolean;   // off for hints: the best searched move, not a random book line
+}
+
+export interface EndgameSolveRequest {
+  board: (number | null)[][];
+  player: 1 | 2;
+  timeBudgetMs: number;
+}
+
+export interface GameAnalysisRequest {
+  moves: AnalysisMove[];
+}
+
+export type AITask =
+  | { type: 'move'; request: AIMoveRequest }
+  | { type: 'solve'; request: EndgameSolveRequest }
+  | { type: 'analyze'; request: GameAnalysisRequest };
+
+export type AITaskResult = number[] | PerfectResult | MoveAnnotation[] | null;
+
+export interface AIWorkerJob {
+  id: number;
+  task: AITask;
+}
+
+export interface AIWorkerReply {
+  id: number;
+  result: AITaskResult;
+  error?: string;
+}
+
+// First message from a worker once its script has loaded; 'online' fires before that
+export const AI_WORKER_READY = 'ready';
+
+interface PendingJob {
+  id: number;
+  key: string;
+  task: AITask;
+  background: boolean;   // yields to any move or hint search
+  resolve: (result: AITaskResult) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: PendingJob | null;
+  ready: boolean;
+}
+
+// Shared by the worker threads and the in-process fallback
+export function runAITask(task: AITask): Promise<AITaskResult> {
+  switch (task.type) {
+    case 'move':
+      return OthelloGame.makeAIMove(task.request.board, task.request.player, task.request.difficulty, task.request.timeBudgetMs, task.request.useOpeningBook);
+    case 'solve':
+      return OthelloGame.solvePosition(task.request.board, task.request.player, task.request.timeBudgetMs);
+    case 'analyze':
+      return analyzeGame(task.request.moves);
+  }
+}
+
+// AI_WORKER_POOL_SIZE=0 keeps every search on the main thread
+function getConfiguredPoolSize(): number {
+  const fromEnv = parseInt(process.env.AI_WORKER_POOL_SIZE || '', 10);
+  if (!isNaN(fromEnv) && fromEnv >= 0) return fromEnv;
+  return Math.max(1, Math.min(4, os.cpus().length - 1));
+}
+
+// Runs AI searches in worker threads so a long think never stalls other rooms.
+// Jobs are keyed by room id so a reset or deleted room can cancel its search;
+// analysis is keyed by game id instead, so the next game of a match doesn't cancel it.
+class AIWorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: PendingJob[] = [];
+  private nextJobId = 1;
+  private workersUnavailable = false;
+
+  constructor(private size: number) {}
+
+  // Resolves with the AI's move, or null when it has none or the job was cancelled
+  requestMove(roomId: string, request: AIMoveRequest): Promise<number[] | null> {
+    return this.submit(roomId, { type: 'move', request }) as Promise<number[] | null>;
+  }
+
+  // Resolves with the exact result for the side to move, or null if the solver ran out of time
+  requestPerfectResult(roomId: string, request: EndgameSolveRequest): Promise<PerfectResult | null> {
+    return this.submit(roomId, { type: 'solve', request }) as Promise<PerfectResult | null>;
+  }
+
+  // Resolves with one annotation per move of a finished game; runs only when no move or hint is waiting
+  requestAnalysis(gameId: string, request: GameAnalysisRequest): Promise<MoveAnnotation[] | null> {
+    return this.submit(gameId, { type: 'analyze', request }, true) as Promise<MoveAnnotation[] | null>;
+  }
+
+  // Drop queued or running searches for a key; a busy worker is replaced since a search can't be interrupted
+  cancel(key: string): void {
+    const cancelled = this.queue.filter(job => job.key === key);
+    this.queue = this.queue.filter(job => job.key !== key);
+    cancelled.forEach(job => job.resolve(null));
+
+    for (const poolWorker of [...this.workers]) {
+      if (poolWorker.job?.key === key) {
+        const job = poolWorker.job;
+        poolWorker.job = null;
+        job.resolve(null);
+        this.replaceWorker(poolWorker);
+      }
+    }
+  }
+
+  private submit(key: string, task: AITask, background = false): Promise<AITaskResult> {
+    this.ensureWorkers();
+
+    if (this.workersUnavailable) {
+      return this.runInProcess(task);
+    }
+
+    return new Promise<AITaskResult>(resolve => {
+      this.queue.push({ id: this.nextJobId++, key, task, background, resolve });
+      this.dispatch();
+    });
+  }
+
+  private ensureWorkers(): void {
+    if (this.workersUnavailable || this.workers.length > 0) return;
+    if (this.size === 0) {
+      this.workersUnavailable = true;
+      return;
+    }
+
+    try {
+      for (let i = 0; i < this.size; i++) {
+        this.workers.push(this.spawnWorker());
+      }
+      console.log(`🧵 AI worker pool started with ${this.size} workers`);
+    } catch (error) {
+      console.error('Could not start AI workers:', error);
+      this.disableWorkers();
+    }
+  }
+
+  private spawnWorker(): PoolWorker {
+    // In development the server runs from .ts sources, so the worker needs ts-node too
+    const isTypeScript = path.extname(__filename) === '.ts';
+    const worker = new Worker(path.join(__dirname, `aiWorker${path.extname(__filename)}`), {
+      execArgv: isTypeScript ? ['--require', 'ts-node/register/transpile-only'] : []
+    });
+    const poolWorker: PoolWorker = { worker, job: null, ready: false };
+
+    worker.on('message', (reply: AIWorkerReply | typeof AI_WORKER_READY) => {
+      if (reply === AI_WORKER_READY) {
+        poolWorker.ready = true;
+        return;
+      }
+
+      const job = poolWorker.job;
+      if (!job || job.id !== reply.id) return;
+      poolWorker.job = null;
+
+      if (reply.error) {
+        console.error('AI worker error, retrying in-process:', reply.error);
+        this.runInProcess(job.task).then(job.resolve);
+      } else {
+        job.resolve(reply.result);
+      }
+      this.dispatch();
+    });
+
+    worker.on('error', error => {
+      console.error('AI worker crashed:', error);
+      this.handleLostWorker(poolWorker);
+    });
+
+    // Workers the pool terminates itself lose their listeners first, so this is always unexpected
+    worker.on('exit', code => {
+      console.error(`AI worker exited with code ${code}`);
+      this.handleLostWorker(poolWorker);
+    });
+
+    return poolWorker;
+  }
+
+  // The running job moves in-process so its room isn't left waiting, then the worker is replaced
+  private handleLostWorker(poolWorker: PoolWorker): void {
+    const job = poolWorker.job;
+    poolWorker.job = null;
+    if (job) {
+      this.runInProcess(job.task).then(job.resolve);
+    }
+
+    // A worker that never loaded its script will not load it next time either
+    if (!poolWorker.ready) {
+      this.disableWorkers();
+    } else {
+      this.replaceWorker(poolWorker);
+    }
+  }
+
+  private replaceWorker(poolWorker: PoolWorker): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) return;
+
+    poolWorker.worker.removeAllListeners();
+    poolWorker.worker.terminate();
+
+    try {
+      this.workers[index] = this.spawnWorker();
+    } catch (error) {
+      console.error('Could not replace AI worker:', error);
+      this.workers.splice(index, 1);
+      if (this.workers.length === 0) {
+        this.disableWorkers();
+      }
+    }
+    this.dispatch();
+  }
+
+  private disableWorkers(): void {
+    if (this.workersUnavailable) return;
+    console.error('AI worker pool unavailable, searching in-process');
+    this.workersUnavailable = true;
+
+    for (const poolWorker of this.workers) {
+      poolWorker.worker.removeAllListeners();
+      poolWorker.worker.terminate();
+      if (poolWorker.job) {
+        this.queue.unshift(poolWorker.job);
+      }
+    }
+    this.workers = [];
+    this.flushQueueInProcess();
+  }
+
+  private dispatch(): void {
+    for (const poolWorker of this.workers) {
+      if (this.queue.length === 0) return;
+      if (poolWorker.job) continue;
+
+      const job = this.takeNextJob();
+      poolWorker.job = job;
+      const message: AIWorkerJob = { id: job.id, task: job.task };
+      poolWorker.worker.postMessage(message);
+    }
+
+    // Every worker is busy: a waiting move or hint takes over a worker running analysis,
+    // which goes back in the queue and starts over once a worker is free
+    if (!this.queue.some(job => !job.background)) return;
+    const preempted = this.workers.find(poolWorker => poolWorker.job?.background);
+    if (preempted) {
+      this.queue.push(preempted.job!);
+      preempted.job = null;
+      this.replaceWorker(preempted);
+    }
+  }
+
+  // Oldest move or hint first, background work only when none is waiting
+  private takeNextJob(): PendingJob {
+    const index = this.queue.findIndex(job => !job.background);
+    return this.queue.splice(index === -1 ? 0 : index, 1)[0];
+  }
+
+  private flushQueueInProcess(): void {
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(job => this.runInProcess(job.task).then(job.resolve));
+  }
+
+  private runInProcess(task: AITask): Promise<AITaskResult> {
+    return runAITask(task)
+      .catch(error => {
+        console.error('💥 AI move error:', error);
+        return null;
+      });
+  }
+}
+
+// Export singleton instance
+export const aiWorkerPool = new AIWorkerPool(getConfiguredPoolSize());
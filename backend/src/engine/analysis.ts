@@ -0,0 +1,143 @@
+import { Bitboard, fromSquare, getFlips, playMove, popCount, sidesFor, toSquare } from './bitboard';
+import { searchBestMove, searchScore, WIN_SCORE } from './search';
+import { solveEndgame } from './endgame';
+
+export type MoveQuality = 'best' | 'inaccuracy' | 'mistake' | 'blunder';
+
+// One played move as the analysis needs it; passes are implied by the side that moved
+export interface AnalysisMove {
+  player: 1 | 2;
+  row: number;
+  col: number;
+}
+
+export interface MoveAnnotation {
+  ply: number;        // index of the move in the game
+  player: 1 | 2;
+  row: number;
+  col: number;
+  bestRow: number;
+  bestCol: number;
+  loss: number;       // win chance thrown away by the move, in percentage points
+  discLoss?: number;  // exact disc loss when the position was solved to the end
+  quality: MoveQuality;
+}
+
+export interface AnalysisOptions {
+  maxDepth: number;
+  timeBudgetMs: number;    // per position
+  endgameEmpties: number;  // positions with this many empties or fewer are solved exactly
+}
+
+// Per-position settings for post-game analysis: a game has ~60 positions, so each gets little time
+export const ANALYSIS_SEARCH: AnalysisOptions = {
+  maxDepth: 8,
+  timeBudgetMs: 100,
+  endgameEmpties: 10
+};
+
+// Heuristic score that maps to a ~73% win chance (half a corner)
+const EVAL_SCALE = 200;
+
+// Smallest win-chance loss for each annotation, worst first
+const QUALITY_THRESHOLDS: [MoveQuality, number][] = [
+  ['blunder', 20],
+  ['mistake', 10],
+  ['inaccuracy', 5]
+];
+// A solved move that keeps the result still counts as an inaccuracy once it throws away this many discs
+const ENDGAME_INACCURACY_DISCS = 6;
+
+interface MoveVerdict {
+  bestSquare: number;
+  loss: number;
+  discLoss?: number;
+}
+
+function winChance(score: number): number {
+  if (score >= WIN_SCORE) return 1;
+  if (score <= -WIN_SCORE) return 0;
+  return 1 / (1 + Math.exp(-score / EVAL_SCALE));
+}
+
+function outcome(discDiff: number): number {
+  return discDiff > 0 ? 1 : discDiff < 0 ? 0 : 0.5;
+}
+
+function classify(loss: number, discLoss?: number): MoveQuality {
+  for (const [quality, threshold] of QUALITY_THRESHOLDS) {
+    if (loss >= threshold) return quality;
+  }
+  return discLoss !== undefined && discLoss >= ENDGAME_INACCURACY_DISCS ? 'inaccuracy' : 'best';
+}
+
+// Exact comparison of the played move against the best one; null if the solver ran out of time
+async function solveMove(own: Bitboard, opp: Bitboard, square: number, timeBudgetMs: number): Promise<MoveVerdict | null> {
+  const best = await solveEndgame(own, opp, timeBudgetMs);
+  if (!best || best.square === null) return null;
+  if (best.square === square) return { bestSquare: square, loss: 0, discLoss: 0 };
+
+  const [nextOwn, nextOpp] = playMove(own, opp, square);
+  const reply = await solveEndgame(nextOpp, nextOwn, timeBudgetMs);
+  if (!reply) return null;
+
+  const played = -reply.score;
+  return {
+    bestSquare: best.square,
+    loss: (outcome(best.score) - outcome(played)) * 100,
+    discLoss: best.score - played
+  };
+}
+
+// Heuristic comparison: both moves are scored at the depth the best-move search completed
+async function searchMove(own: Bitboard, opp: Bitboard, square: number, options: AnalysisOptions): Promise<MoveVerdict> {
+  const best = await searchBestMove(own, opp, { maxDepth: options.maxDepth, timeBudgetMs: options.timeBudgetMs });
+  if (!best || best.square === square || best.depth === 0) {
+    return { bestSquare: best ? best.square : square, loss: 0 };
+  }
+
+  const [nextOwn, nextOpp] = playMove(own, opp, square);
+  const reply = await searchScore(nextOpp, nextOwn, best.depth - 1, options.timeBudgetMs);
+  if (reply === null) return { bestSquare: best.square, loss: 0 };
+
+  return {
+    bestSquare: best.square,
+    loss: Math.max(0, (winChance(best.score) - winChance(-reply)) * 100)
+  };
+}
+
+// Replays the game from the start and annotates every move; stops at the first illegal move
+export async function analyzeGame(moves: AnalysisMove[], options: AnalysisOptions = ANALYSIS_SEARCH): Promise<MoveAnnotation[]> {
+  let black = 0x0000000810000000n; // e4, d5
+  let white = 0x0000001008000000n; // d4, e5
+  const annotations: MoveAnnotation[] = [];
+
+  for (let ply = 0; ply < moves.length; ply++) {
+    const { player, row, col } = moves[ply];
+    const square = toSquare(row, col);
+    const [own, opp] = sidesFor({ black, white }, player);
+    if (getFlips(own, opp, square) === 0n) break;
+
+    const empties = 64 - popCount(black | white);
+    const verdict = (empties <= options.endgameEmpties && await solveMove(own, opp, square, options.timeBudgetMs))
+      || await searchMove(own, opp, square, options);
+
+    const [bestRow, bestCol] = fromSquare(verdict.bestSquare);
+    annotations.push({
+      ply,
+      player,
+      row,
+      col,
+      bestRow,
+      bestCol,
+      loss: Math.round(verdict.loss * 10) / 10,
+      discLoss: verdict.discLoss,
+      quality: classify(verdict.loss, verdict.discLoss)
+    });
+
+    const [newOwn, newOpp] = playMove(own, opp, square);
+    [black, white] = player === 1 ? [newOwn, newOpp] : [newOpp, newOwn];
+  }
+
+  return annotations;
+}
@@ -0,0 +1,143 @@
+// Bitboard primitives for Othello.
+// Each side is a 64-bit mask (BigInt) where bit index = row * 8 + col,
+// so A1 (row 0, col 0) is bit 0 and H8 (row 7, col 7) is bit 63.
+
+export type Bitboard = bigint;
+
+export interface BitPosition {
+  black: Bitboard;
+  white: Bitboard;
+}
+
+const FULL = 0xffffffffffffffffn;
+const NOT_A_FILE = 0xfefefefefefefefen; // clears col 0
+const NOT_H_FILE = 0x7f7f7f7f7f7f7f7fn; // clears col 7
+const LOW_32 = 0xffffffffn;
+
+export const SQUARE_BITS: Bitboard[] = Array.from({ length: 64 }, (_, i) => 1n << BigInt(i));
+
+// Shift a whole board one step in one of the 8 directions, dropping bits that wrap around a file
+function shift(b: Bitboard, dir: number): Bitboard {
+  switch (dir) {
+    case 0: return (b >> 9n) & NOT_H_FILE; // up-left
+    case 1: return b >> 8n;                // up
+    case 2: return (b >> 7n) & NOT_A_FILE; // up-right
+    case 3: return (b >> 1n) & NOT_H_FILE; // left
+    case 4: return (b << 1n) & NOT_A_FILE; // right
+    case 5: return (b << 7n) & NOT_H_FILE; // down-left
+    case 6: return (b << 8n) & FULL;       // down
+    default: return (b << 9n) & NOT_A_FILE; // down-right
+  }
+}
+
+// All empty squares where `own` may play against `opp`
+export function getMoveMask(own: Bitboard, opp: Bitboard): Bitboard {
+  const empty = ~(own | opp) & FULL;
+  let moves = 0n;
+
+  for (let dir = 0; dir < 8; dir++) {
+    let run = shift(own, dir) & opp;
+    // An opposing run is at most 6 discs long
+    for (let i = 0; i < 5; i++) {
+      run |= shift(run, dir) & opp;
+    }
+    moves |= shift(run, dir) & empty;
+  }
+
+  return moves;
+}
+
+// Discs flipped when `own` plays on `square`; 0n means the move is illegal
+export function getFlips(own: Bitboard, opp: Bitboard, square: number): Bitboard {
+  const start = SQUARE_BITS[square];
+  if ((own | opp) & start) return 0n;
+
+  let flips = 0n;
+  for (let dir = 0; dir < 8; dir++) {
+    let line = 0n;
+    let cursor = shift(start, dir);
+    while (cursor & opp) {
+      line |= cursor;
+      cursor = shift(cursor, dir);
+    }
+    if (cursor & own) flips |= line;
+  }
+
+  return flips;
+}
+
+// Play `square` for `own`; returns the new [own, opp] pair (unchanged if the move is illegal)
+export function playMove(own: Bitboard, opp: Bitboard, square: number): [Bitboard, Bitboard] {
+  const flips = getFlips(own, opp, square);
+  if (flips === 0n) return [own, opp];
+  return [own | flips | SQUARE_BITS[square], opp & ~flips];
+}
+
+function popCount32(x: number): number {
+  x = x - ((x >>> 1) & 0x55555555);
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  x = (x + (x >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(x, 0x01010101) >>> 24;
+}
+
+export function popCount(b: Bitboard): number {
+  return popCount32(Number(b & LOW_32)) + popCount32(Number(b >> 32n));
+}
+
+// Indices of set bits in ascending order (row-major, same order as the old 2D scan)
+export function squaresOf(b: Bitboard): number[] {
+  const squares: number[] = [];
+  let lo = Number(b & LOW_32);
+  let hi = Number(b >> 32n);
+
+  while (lo !== 0) {
+    const bit = lo & -lo;
+    squares.push(31 - Math.clz32(bit));
+    lo ^= bit;
+  }
+  while (hi !== 0) {
+    const bit = hi & -hi;
+    squares.push(63 - Math.clz32(bit));
+    hi ^= bit;
+  }
+
+  return squares;
+}
+
+export function toSquare(row: number, col: number): number {
+  return row * 8 + col;
+}
+
+export function fromSquare(square: number): [number, number] {
+  return [square >> 3, square & 7];
+}
+
+// Conversion helpers so GameState.board stays (number | null)[][] on the wire (1 = black, 2 = white)
+export function boardToBits(board: (number | null)[][]): BitPosition {
+  let black = 0n;
+  let white = 0n;
+
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const cell = board[row][col];
+      if (cell === 1) black |= SQUARE_BITS[row * 8 + col];
+      else if (cell === 2) white |= SQUARE_BITS[row * 8 + col];
+    }
+  }
+
+  return { black, white };
+}
+
+export function bitsToBoard(black: Bitboard, white: Bitboard): (number | null)[][] {
+  const board: (number | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null));
+
+  for (const square of squaresOf(black)) board[square >> 3][square & 7] = 1;
+  for (const square of squaresOf(white)) board[square >> 3][square & 7] = 2;
+
+  return board;
+}
+
+// Split a position into [own, opp] from the point of view of `player` (1 = black, 2 = white)
+export function sidesFor(position: BitPosition, player: number): [Bitboard, Bitboard] {
+  return player === 1 ? [position.black, position.white] : [position.white, position.black];
+}
@@ -0,0 +1,90 @@
+import { Bitboard, getMoveMask, playMove, popCount, squaresOf } from './bitboard';
+import { SLICE_MS, yieldToEventLoop } from './search';
+
+export interface EndgameResult {
+  square: number | null; // null when the side to move has to pass
+  score: number;         // final disc differential for the side to move under perfect play
+  nodes: number;
+}
+
+const TIME_CHECK_INTERVAL = 1024;
+// Below this many empties move ordering costs more than it saves
+const ORDERING_EMPTIES = 6;
+
+class EndgameSolver {
+  nodes = 0;
+  aborted = false;
+
+  constructor(private deadline: number) {}
+
+  // Fastest-first: try the replies that leave the opponent the fewest moves
+  private orderMoves(own: Bitboard, opp: Bitboard, moveMask: Bitboard): number[] {
+    const moves = squaresOf(moveMask);
+    if (64 - popCount(own | opp) <= ORDERING_EMPTIES) return moves;
+
+    return moves
+      .map(square => {
+        const [nextOwn, nextOpp] = playMove(own, opp, square);
+        return { square, replies: popCount(getMoveMask(nextOpp, nextOwn)) };
+      })
+      .sort((a, b) => a.replies - b.replies)
+      .map(entry => entry.square);
+  }
+
+  solve(own: Bitboard, opp: Bitboard, alpha: number, beta: number, passed: boolean): number {
+    if (++this.nodes % TIME_CHECK_INTERVAL === 0 && Date.now() >= this.deadline) this.aborted = true;
+    if (this.aborted) return 0;
+
+    const moveMask = getMoveMask(own, opp);
+    if (moveMask === 0n) {
+      if (passed) return popCount(own) - popCount(opp);
+      return -this.solve(opp, own, -beta, -alpha, true);
+    }
+
+    let best = -64;
+    for (const square of this.orderMoves(own, opp, moveMask)) {
+      const [nextOwn, nextOpp] = playMove(own, opp, square);
+      const score = -this.solve(nextOpp, nextOwn, -beta, -alpha, false);
+      if (this.aborted) return 0;
+      if (score > best) best = score;
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+    return best;
+  }
+
+  // Root of the solve: yields between root moves so a slow solve doesn't starve the event loop
+  async solveRoot(own: Bitboard, opp: Bitboard): Promise<EndgameResult | null> {
+    const moveMask = getMoveMask(own, opp);
+    if (moveMask === 0n) {
+      const score = -this.solve(opp, own, -64, 64, true);
+      return this.aborted ? null : { square: null, score, nodes: this.nodes };
+    }
+
+    let alpha = -65;
+    let bestSquare = -1;
+    let sliceStart = Date.now();
+
+    for (const square of this.orderMoves(own, opp, moveMask)) {
+      if (Date.now() - sliceStart >= SLICE_MS) {
+        await yieldToEventLoop();
+        sliceStart = Date.now();
+      }
+      const [nextOwn, nextOpp] = playMove(own, opp, square);
+      const score = -this.solve(nextOpp, nextOwn, -64, -alpha, false);
+      if (this.aborted) return null;
+      if (score > alpha) {
+        alpha = score;
+        bestSquare = square;
+      }
+    }
+
+    return { square: bestSquare, score: alpha, nodes: this.nodes };
+  }
+}
+
+// Exact disc-differential solve for the side `own`; null if it didn't finish inside the time budget
+export function solveEndgame(own: Bitboard, opp: Bitboard, timeBudgetMs: number): Promise<EndgameResult | null> {
+  const solver = new EndgameSolver(Date.now() + Math.max(0, timeBudgetMs));
+  return solver.solveRoot(own, opp);
+}
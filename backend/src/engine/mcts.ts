@@ -0,0 +1,154 @@
+import { Bitboard, getMoveMask, playMove, popCount, squaresOf } from './bitboard';
+import { CORNERS, SLICE_MS, X_SQUARES, evaluate, yieldToEventLoop } from './search';
+
+export interface MCTSOptions {
+  maxPlayouts: number;
+  timeBudgetMs: number;
+  exploration: number; // UCT constant, sqrt(2) is the textbook value
+  playoutDepth: number; // random plies before the heuristic takes over (Infinity = play to the end)
+}
+
+export interface MCTSResult {
+  square: number;
+  winRate: number; // for the side to move at the root
+  playouts: number;
+}
+
+const PASS = -1;
+
+// Heuristic score that maps to a ~73% win chance in a cut-off playout
+const EVAL_SCALE = 400;
+
+class MCTSNode {
+  children: MCTSNode[] = [];
+  untried: number[];
+  visits = 0;
+  wins = 0; // from the point of view of the side that played `move`
+
+  constructor(
+    public own: Bitboard,         // side to move in this node
+    public opp: Bitboard,
+    public move: number,          // move that led here (PASS for a forced pass)
+    public parent: MCTSNode | null
+  ) {
+    const moves = squaresOf(getMoveMask(own, opp));
+    if (moves.length > 0) {
+      this.untried = moves;
+    } else {
+      // Forced pass unless the game is over
+      this.untried = getMoveMask(opp, own) !== 0n ? [PASS] : [];
+    }
+  }
+
+  selectChild(exploration: number): MCTSNode {
+    const logVisits = Math.log(this.visits);
+    let best = this.children[0];
+    let bestValue = -Infinity;
+
+    for (const child of this.children) {
+      const value = child.wins / child.visits + exploration * Math.sqrt(logVisits / child.visits);
+      if (value > bestValue) {
+        bestValue = value;
+        best = child;
+      }
+    }
+    return best;
+  }
+
+  expand(): MCTSNode {
+    const index = Math.floor(Math.random() * this.untried.length);
+    const move = this.untried[index];
+    this.untried.splice(index, 1);
+
+    const [nextOwn, nextOpp] = move === PASS ? [this.own, this.opp] : playMove(this.own, this.opp, move);
+    const child = new MCTSNode(nextOpp, nextOwn, move, this);
+    this.children.push(child);
+    return child;
+  }
+}
+
+// Random move with a light bias: corners first, X-squares only when nothing else is left
+function playoutMove(moveMask: Bitboard): number {
+  const corners = moveMask & CORNERS;
+  const safe = moveMask & ~X_SQUARES;
+  const moves = squaresOf(corners || safe || moveMask);
+  return moves[Math.floor(Math.random() * moves.length)];
+}
+
+// Biased-random playout; returns the chance (0..1) that the side `own` wins.
+// Finished games score exactly, cut-off ones go through the heuristic evaluation.
+function playout(own: Bitboard, opp: Bitboard, maxPlies: number): number {
+  let flipped = false;
+  let passed = false;
+
+  for (let ply = 0; ; ply++) {
+    const moveMask = getMoveMask(own, opp);
+    let result: number | null = null;
+
+    if (moveMask === 0n && passed) {
+      const diff = popCount(own) - popCount(opp);
+      result = diff > 0 ? 1 : diff < 0 ? 0 : 0.5;
+    } else if (ply >= maxPlies) {
+      result = 1 / (1 + Math.exp(-evaluate(own, opp) / EVAL_SCALE));
+    }
+    if (result !== null) return flipped ? 1 - result : result;
+
+    if (moveMask === 0n) {
+      passed = true;
+    } else {
+      passed = false;
+      [own, opp] = playMove(own, opp, playoutMove(moveMask));
+    }
+    [own, opp] = [opp, own];
+    flipped = !flipped;
+  }
+}
+
+// UCT search for the side `own`; null when there is no legal move
+export async function mctsBestMove(own: Bitboard, opp: Bitboard, options: MCTSOptions): Promise<MCTSResult | null> {
+  const moves = squaresOf(getMoveMask(own, opp));
+  if (moves.length === 0) return null;
+  if (moves.length === 1) return { square: moves[0], winRate: 0.5, playouts: 0 };
+
+  const root = new MCTSNode(own, opp, PASS, null);
+  const deadline = Date.now() + Math.max(0, options.timeBudgetMs);
+  let sliceStart = Date.now();
+  let playouts = 0;
+
+  while (playouts < options.maxPlayouts) {
+    if (Date.now() - sliceStart >= SLICE_MS) {
+      if (Date.now() >= deadline) break;
+      await yieldToEventLoop();
+      sliceStart = Date.now();
+    }
+
+    // Selection
+    let node = root;
+    while (node.untried.length === 0 && node.children.length > 0) {
+      node = node.selectChild(options.exploration);
+    }
+
+    // Expansion
+    if (node.untried.length > 0) {
+      node = node.expand();
+    }
+
+    // Simulation, scored for the side to move at `node`
+    let result = playout(node.own, node.opp, options.playoutDepth);
+
+    // Backpropagation: each node is credited for the side that moved into it
+    for (let current: MCTSNode | null = node; current; current = current.parent) {
+      current.visits++;
+      current.wins += 1 - result;
+      result = 1 - result;
+    }
+    playouts++;
+  }
+
+  let best = root.children[0];
+  for (const child of root.children) {
+    if (child.visits > best.visits) best = child;
+  }
+
+  return { square: best.move, winRate: best.visits ? best.wins / best.visits : 0.5, playouts };
+}
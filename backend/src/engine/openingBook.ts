@@ -0,0 +1,113 @@
+import openings from './openings.json';
+import { Bitboard, boardToBits, fromSquare, getFlips, playMove, sidesFor, toSquare } from './bitboard';
+
+// One book line in f5-style notation: column a-h, row 1-8, e.g. "f5d6c3d3c4"
+export interface BookOpening {
+  name: string;
+  moves: string;
+  weight: number;
+}
+
+interface BookEntry {
+  name?: string;                    // set where a named line ends
+  continuations: Map<number, number>; // square -> summed weight of lines playing it
+}
+
+// The start position looks the same under these four transforms, so f5 lines also cover e6, d3 and c4
+const SYMMETRIES: ((row: number, col: number) => [number, number])[] = [
+  (row, col) => [row, col],
+  (row, col) => [col, row],
+  (row, col) => [7 - col, 7 - row],
+  (row, col) => [7 - row, 7 - col]
+];
+
+// "f5" -> [4, 5] (row, col); null if the text isn't a square
+export function parseSquare(notation: string): [number, number] | null {
+  const match = /^([a-h])([1-8])$/.exec(notation.trim().toLowerCase());
+  if (!match) return null;
+  return [parseInt(match[2], 10) - 1, match[1].charCodeAt(0) - 97];
+}
+
+export function toNotation(row: number, col: number): string {
+  return `${String.fromCharCode(97 + col)}${row + 1}`;
+}
+
+// No passes happen inside the book, so the discs alone tell whose turn it is
+function positionKey(black: Bitboard, white: Bitboard): string {
+  return `${black.toString(16)}/${white.toString(16)}`;
+}
+
+function buildBook(lines: BookOpening[]): Map<string, BookEntry> {
+  const book = new Map<string, BookEntry>();
+  const entryFor = (key: string) => {
+    let entry = book.get(key);
+    if (!entry) {
+      entry = { continuations: new Map() };
+      book.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const line of lines) {
+    const squares = (line.moves.match(/[a-h][1-8]/gi) || []).map(move => parseSquare(move)!);
+
+    for (const transform of SYMMETRIES) {
+      let black = 0x0000000810000000n; // e4, d5
+      let white = 0x0000001008000000n; // d4, e5
+      let player = 1;
+      let complete = true;
+
+      for (const square of squares) {
+        const [row, col] = transform(square[0], square[1]);
+        const index = toSquare(row, col);
+        const [own, opp] = sidesFor({ black, white }, player);
+
+        if (getFlips(own, opp, index) === 0n) {
+          console.error(`Opening book: illegal move ${toNotation(square[0], square[1])} in "${line.name}"`);
+          complete = false;
+          break;
+        }
+
+        const continuations = entryFor(positionKey(black, white)).continuations;
+        continuations.set(index, (continuations.get(index) || 0) + line.weight);
+
+        const [newOwn, newOpp] = playMove(own, opp, index);
+        [black, white] = player === 1 ? [newOwn, newOpp] : [newOpp, newOwn];
+        player = player === 1 ? 2 : 1;
+      }
+
+      if (complete) {
+        entryFor(positionKey(black, white)).name = line.name;
+      }
+    }
+  }
+
+  return book;
+}
+
+const book = buildBook(openings as BookOpening[]);
+
+// Name of the book line that ends exactly at this position, if any
+export function getOpeningName(board: (number | null)[][]): string | null {
+  const { black, white } = boardToBits(board);
+  return book.get(positionKey(black, white))?.name ?? null;
+}
+
+// Weighted random book reply for `player`; null once the game has left the book
+export function getBookMove(board: (number | null)[][], player: number): number[] | null {
+  const position = boardToBits(board);
+  const entry = book.get(positionKey(position.black, position.white));
+  if (!entry) return null;
+
+  const [own, opp] = sidesFor(position, player);
+  const candidates = [...entry.continuations].filter(([square]) => getFlips(own, opp, square) !== 0n);
+  const totalWeight = candidates.reduce((sum, [, weight]) => sum + weight, 0);
+  if (totalWeight === 0) return null;
+
+  let pick = Math.random() * totalWeight;
+  for (const [square, weight] of candidates) {
+    pick -= weight;
+    if (pick < 0) return fromSquare(square);
+  }
+  return fromSquare(candidates[candidates.length - 1][0]);
+}
@@ -0,0 +1,49 @@
+import { OthelloGame } from './OthelloGame';
+
+// A recorded move or pass, as kept in the game's move history
+export interface ReplayMove {
+  player: 1 | 2;
+  row: number;      // -1 for a pass
+  col: number;
+  pass?: 'no-moves' | 'timeout' | 'disconnect';
+}
+
+// Position after each ply; frame 0 is the start position
+export interface ReplayFrame {
+  board: (number | null)[][];
+  scores: { 1: number; 2: number };
+  currentPlayer: 1 | 2;           // side to move in this position
+  move?: ReplayMove;              // ply that led here
+  flipped: number[][];            // discs turned over by that ply
+}
+
+// Replays a move list through the rules engine; null at the first move the rules don't allow
+export function buildReplayFrames(moves: ReplayMove[]): ReplayFrame[] | null {
+  let board = OthelloGame.createEmptyBoard();
+  const frames: ReplayFrame[] = [{
+    board,
+    scores: OthelloGame.calculateScores(board),
+    currentPlayer: 1,
+    flipped: []
+  }];
+
+  for (const move of moves) {
+    let flipped: number[][] = [];
+
+    if (!move.pass) {
+      if (!OthelloGame.canPlacePiece(board, move.row, move.col, move.player)) return null;
+      flipped = OthelloGame.getFlippedSquares(board, move.row, move.col, move.player);
+      board = OthelloGame.makeMove(board, move.row, move.col, move.player);
+    }
+
+    frames.push({
+      board,
+      scores: OthelloGame.calculateScores(board),
+      currentPlayer: move.player === 1 ? 2 : 1,
+      move,
+      flipped
+    });
+  }
+
+  return frames;
+}
@@ -0,0 +1,204 @@
+import { Bitboard, getMoveMask, playMove, popCount, squaresOf } from './bitboard';
+
+export interface SearchOptions {
+  maxDepth: number;
+  timeBudgetMs: number;
+}
+
+export interface SearchResult {
+  square: number;
+  score: number;
+  depth: number; // deepest fully completed iteration
+  nodes: number;
+}
+
+const INFINITY_SCORE = 1_000_000;
+export const WIN_SCORE = 100_000;
+
+// Plies this close to the leaves are searched synchronously; above them the search may yield
+const SYNC_DEPTH = 2;
+// Longest stretch the search may hold the event loop before yielding
+export const SLICE_MS = 15;
+const TIME_CHECK_INTERVAL = 1024;
+
+export const CORNERS = 0x8100000000000081n;
+export const X_SQUARES = 0x0042000000004200n;
+const C_SQUARES = 0x4281000000008142n;
+const EDGES = 0x3c0081818181003cn;
+
+// Squares next to each corner, used to forgive X/C squares once that corner is taken
+const CORNER_NEIGHBOURS: [Bitboard, Bitboard][] = [
+  [0x0000000000000001n, 0x0000000000000302n],
+  [0x0000000000000080n, 0x000000000000c040n],
+  [0x0100000000000000n, 0x0203000000000000n],
+  [0x8000000000000000n, 0x40c0000000000000n]
+];
+
+// Static square weights, used only for move ordering
+const SQUARE_WEIGHTS = [
+  100, -20, 10,  5,  5, 10, -20, 100,
+  -20, -50, -2, -2, -2, -2, -50, -20,
+   10,  -2,  1,  1,  1,  1,  -2,  10,
+    5,  -2,  1,  0,  0,  1,  -2,   5,
+    5,  -2,  1,  0,  0,  1,  -2,   5,
+   10,  -2,  1,  1,  1,  1,  -2,  10,
+  -20, -50, -2, -2, -2, -2, -50, -20,
+  100, -20, 10,  5,  5, 10, -20, 100
+];
+
+// Heuristic score of a position from the point of view of `own`
+export function evaluate(own: Bitboard, opp: Bitboard): number {
+  const empties = 64 - popCount(own | opp);
+
+  let unsafeOwn = 0;
+  let unsafeOpp = 0;
+  for (const [corner, neighbours] of CORNER_NEIGHBOURS) {
+    if ((own | opp) & corner) continue;
+    unsafeOwn += popCount(own & neighbours & X_SQUARES) * 2 + popCount(own & neighbours & C_SQUARES);
+    unsafeOpp += popCount(opp & neighbours & X_SQUARES) * 2 + popCount(opp & neighbours & C_SQUARES);
+  }
+
+  const mobility = popCount(getMoveMask(own, opp)) - popCount(getMoveMask(opp, own));
+  const corners = popCount(own & CORNERS) - popCount(opp & CORNERS);
+  const edges = popCount(own & EDGES) - popCount(opp & EDGES);
+  const discs = popCount(own) - popCount(opp);
+
+  // Disc count only starts to matter once the board fills up
+  const discWeight = empties < 14 ? 10 : empties < 30 ? 1 : 0;
+
+  return corners * 400 + mobility * 40 - (unsafeOwn - unsafeOpp) * 60 + edges * 10 + discs * discWeight;
+}
+
+// Exact score of a finished game: any win beats any heuristic score, larger margins rank higher
+export function finalScore(own: Bitboard, opp: Bitboard): number {
+  const diff = popCount(own) - popCount(opp);
+  if (diff > 0) return WIN_SCORE + diff;
+  if (diff < 0) return -WIN_SCORE + diff;
+  return 0;
+}
+
+export function orderMoves(moves: number[], first?: number): number[] {
+  const ordered = [...moves].sort((a, b) => SQUARE_WEIGHTS[b] - SQUARE_WEIGHTS[a]);
+  if (first !== undefined && ordered.includes(first)) {
+    ordered.splice(ordered.indexOf(first), 1);
+    ordered.unshift(first);
+  }
+  return ordered;
+}
+
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+class Searcher {
+  nodes = 0;
+  aborted = false;
+  private sliceStart = Date.now();
+
+  constructor(private deadline: number) {}
+
+  private checkTime(): void {
+    if (Date.now() >= this.deadline) this.aborted = true;
+  }
+
+  async maybeYield(): Promise<void> {
+    if (Date.now() - this.sliceStart < SLICE_MS) return;
+    await yieldToEventLoop();
+    this.sliceStart = Date.now();
+    this.checkTime();
+  }
+
+  negamax(own: Bitboard, opp: Bitboard, depth: number, alpha: number, beta: number, passed: boolean): number {
+    if (++this.nodes % TIME_CHECK_INTERVAL === 0) this.checkTime();
+    if (this.aborted) return 0;
+
+    const moveMask = getMoveMask(own, opp);
+    if (moveMask === 0n) {
+      if (passed) return finalScore(own, opp);
+      return -this.negamax(opp, own, depth, -beta, -alpha, true);
+    }
+    if (depth === 0) return evaluate(own, opp);
+
+    let best = -INFINITY_SCORE;
+    for (const square of orderMoves(squaresOf(moveMask))) {
+      const [nextOwn, nextOpp] = playMove(own, opp, square);
+      const score = -this.negamax(nextOpp, nextOwn, depth - 1, -beta, -alpha, false);
+      if (this.aborted) return 0;
+      if (score > best) best = score;
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+    return best;
+  }
+
+  // Same as negamax, but hands control back to the event loop between subtrees near the root
+  async negamaxAsync(own: Bitboard, opp: Bitboard, depth: number, alpha: number, beta: number, passed: boolean): Promise<number> {
+    if (depth <= SYNC_DEPTH) return this.negamax(own, opp, depth, alpha, beta, passed);
+
+    await this.maybeYield();
+    if (this.aborted) return 0;
+    this.nodes++;
+
+    const moveMask = getMoveMask(own, opp);
+    if (moveMask === 0n) {
+      if (passed) return finalScore(own, opp);
+      return -(await this.negamaxAsync(opp, own, depth, -beta, -alpha, true));
+    }
+
+    let best = -INFINITY_SCORE;
+    for (const square of orderMoves(squaresOf(moveMask))) {
+      const [nextOwn, nextOpp] = playMove(own, opp, square);
+      const score = -(await this.negamaxAsync(nextOpp, nextOwn, depth - 1, -beta, -alpha, false));
+      if (this.aborted) return 0;
+      if (score > best) best = score;
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+    return best;
+  }
+}
+
+// Iterative-deepening alpha-beta search for the side `own`; null when there is no legal move
+export async function searchBestMove(own: Bitboard, opp: Bitboard, options: SearchOptions): Promise<SearchResult | null> {
+  const moves = squaresOf(getMoveMask(own, opp));
+  if (moves.length === 0) return null;
+  if (moves.length === 1) return { square: moves[0], score: 0, depth: 0, nodes: 0 };
+
+  const searcher = new Searcher(Date.now() + Math.max(0, options.timeBudgetMs));
+  const empties = 64 - popCount(own | opp);
+  let result: SearchResult = { square: orderMoves(moves)[0], score: 0, depth: 0, nodes: 0 };
+
+  for (let depth = 1; depth <= options.maxDepth; depth++) {
+    let alpha = -INFINITY_SCORE;
+    let iterationBest = -1;
+
+    for (const square of orderMoves(moves, result.square)) {
+      await searcher.maybeYield();
+      if (searcher.aborted) break;
+      const [nextOwn, nextOpp] = playMove(own, opp, square);
+      const score = -(await searcher.negamaxAsync(nextOpp, nextOwn, depth - 1, -INFINITY_SCORE, -alpha, false));
+      if (searcher.aborted) break;
+      if (score > alpha) {
+        alpha = score;
+        iterationBest = square;
+      }
+    }
+
+    // Only trust fully searched iterations
+    if (searcher.aborted || iterationBest === -1) break;
+    result = { square: iterationBest, score: alpha, depth, nodes: searcher.nodes };
+
+    // Nothing more to learn once the game result is proven or the board is full
+    if (Math.abs(alpha) >= WIN_SCORE || depth >= empties) break;
+  }
+
+  result.nodes = searcher.nodes;
+  return result;
+}
+
+// Score of a position for the side `own` at a fixed depth; null if the search ran out of time
+export async function searchScore(own: Bitboard, opp: Bitboard, depth: number, timeBudgetMs: number): Promise<number | null> {
+  const searcher = new Searcher(Date.now() + Math.max(0, timeBudgetMs));
+  const score = await searcher.negamaxAsync(own, opp, depth, -INFINITY_SCORE, INFINITY_SCORE, false);
+  return searcher.aborted ? null : score;
+}
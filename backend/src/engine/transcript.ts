@@ -0,0 +1,113 @@
+import { OthelloGame } from './OthelloGame';
+import { ReplayMove } from './replay';
+
+// Text transcripts in the usual Othello notation: moves concatenated as "f5d6c3...",
+// column a-h then row 1-8. Forced passes are left out; a pass the side to move chose or was
+// made to take (timeout, disconnect) is written "--" so the game still replays. The full form
+// adds PGN-style headers:
+//
+//   [Black "Huong"]
+//   [White "AI (HARD)"]
+//   [Date "2026-10-19"]
+//   [Result "34-30"]
+//
+//   f5d6c3d3c4f4...
+
+export interface TranscriptHeaders {
+  [name: string]: string;
+}
+
+export interface ParsedTranscript {
+  headers: TranscriptHeaders;
+  moves: ReplayMove[];   // forced passes are filled back in where the side to move had no move
+}
+
+export interface TranscriptError {
+  error: 'syntax' | 'illegal';
+  moveNumber: number;    // 1-based count of the move that failed
+  token: string;
+}
+
+const HEADER_LINE = /^\s*\[(\w+)\s+"([^"]*)"\]\s*$/;
+// Move squares plus what other tools like to put around them: move numbers and pass markers
+const MOVE_TOKEN = /\s+|\d+\.|[a-h][1-8]|pass|ps|--/giy;
+const PASS_TOKEN = /^(pass|ps|--)$/;
+const PASS_NOTATION = '--';
+
+export function formatSquareNotation(row: number, col: number): string {
+  return `${'abcdefgh'[col]}${row + 1}`;
+}
+
+export function formatMoveList(moves: ReplayMove[]): string {
+  return moves
+    .filter(move => move.pass !== 'no-moves')
+    .map(move => move.pass ? PASS_NOTATION : formatSquareNotation(move.row, move.col))
+    .join('');
+}
+
+export function formatTranscript(headers: TranscriptHeaders, moves: ReplayMove[]): string {
+  const headerLines = Object.entries(headers).map(([name, value]) => `[${name} "${value.replace(/"/g, "'")}"]`);
+  return [...headerLines, '', formatMoveList(moves), ''].join('\n');
+}
+
+// Reads a transcript with or without headers and replays it through the rules engine
+export function parseTranscript(text: string): ParsedTranscript | TranscriptError {
+  const headers: TranscriptHeaders = {};
+  const body: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const header = HEADER_LINE.exec(line);
+    if (header) {
+      headers[header[1]] = header[2];
+    } else {
+      body.push(line);
+    }
+  }
+
+  let board = OthelloGame.createEmptyBoard();
+  let player: 1 | 2 = 1;
+  const moves: ReplayMove[] = [];
+  let moveNumber = 0;
+
+  const source = body.join('\n');
+  MOVE_TOKEN.lastIndex = 0;
+  while (MOVE_TOKEN.lastIndex < source.length) {
+    const start = MOVE_TOKEN.lastIndex;
+    const match = MOVE_TOKEN.exec(source);
+    if (!match) {
+      return { error: 'syntax', moveNumber: moveNumber + 1, token: source.slice(start, start + 10).trim() };
+    }
+
+    const token = match[0].toLowerCase();
+
+    // A written pass: forced if the side had no move, otherwise a turn lost to the clock
+    // (the notation doesn't say why, and a timeout is the usual reason)
+    if (PASS_TOKEN.test(token)) {
+      const hasMoves = OthelloGame.getValidMoves(board, player).length > 0;
+      moves.push({ player, row: -1, col: -1, pass: hasMoves ? 'timeout' : 'no-moves' });
+      player = player === 1 ? 2 : 1;
+      continue;
+    }
+
+    if (!/^[a-h][1-8]$/.test(token)) continue;
+    moveNumber++;
+
+    // A side with no legal move passes; the notation doesn't record it
+    if (OthelloGame.getValidMoves(board, player).length === 0) {
+      moves.push({ player, row: -1, col: -1, pass: 'no-moves' });
+      player = player === 1 ? 2 : 1;
+    }
+
+    const row = Number(token[1]) - 1;
+    const col = token.charCodeAt(0) - 'a'.charCodeAt(0);
+    if (!OthelloGame.canPlacePiece(board, row, col, player)) {
+      return { error: 'illegal', moveNumber, token };
+    }
+
+    moves.push({ player, row, col });
+    board = OthelloGame.makeMove(board, row, col, player);
+    player = player === 1 ? 2 : 1;
+  }
+
+  return { headers, moves };
+}
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import path from 'path';
+import { AIDifficulty } from './engine/OthelloGame';
+import { MoveAnnotation } from './engine/analysis';
+
+export interface MoveRecord {
+  player: 1 | 2;
+  row: number;              // -1 for a pass
+  col: number;
+  flipped: number[][];      // [row, col] of every disc turned over
+  timestamp: number;
+  timeLeft: number;         // seconds left on the turn timer
+  pass?: 'no-moves' | 'timeout' | 'disconnect';
+}
+
+export type GameEndReason = 'normal' | 'surrender' | 'timeout' | 'disconnect' | 'agreement';
+
+export interface ArchivedPlayer {
+  nickname: string;
+  displayName: string;
+  emoji: string;
+  color: 'black' | 'white';
+  pieceEmoji?: { black: string; white: string };
+  isAI?: boolean;
+  aiDifficulty?: AIDifficulty;
+}
+
+export interface ArchivedCoinChange {
+  nickname: string;
+  oldCoins: number;
+  newCoins: number;
+  coinChange: number;
+}
+
+// Thông tin ván đấu không kèm nước đi - dùng cho danh sách
+export interface GameSummary {
+  id: string;
+  players: ArchivedPlayer[];
+  scores: { 1: number; 2: number };
+  winner: 'black' | 'white' | 'draw';
+  reason: GameEndReason;
+  coinChanges: ArchivedCoinChange[];
+  openingName?: string;
+  moveCount: number;         // số nước đã đi, không tính bỏ lượt
+  finishedAt: string;
+}
+
+export interface ArchivedGame extends GameSummary {
+  moves: MoveRecord[];
+  analysis?: MoveAnnotation[]; // có sau khi phân tích xong, có thể muộn hơn lúc lưu ván
+}
+
+export interface GamePage {
+  games: GameSummary[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+class GameArchive {
+  private dir: string;
+  private indexPath: string;
+  private summaries: GameSummary[] = []; // Cũ nhất trước
+  private ids = new Set<string>();
+
+  constructor() {
+    // Mỗi ván một file JSON, cùng một file mục lục cho việc liệt kê
+    this.dir = path.join(process.cwd(), 'data', 'games');
+    this.indexPath = path.join(this.dir, 'index.json');
+    this.ensureDirectoryExists();
+    this.loadIndex();
+  }
+
+  private ensureDirectoryExists(): void {
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+  }
+
+  private loadIndex(): void {
+    try {
+      if (fs.existsSync(this.indexPath)) {
+        this.summaries = JSON.parse(fs.readFileSync(this.indexPath, 'utf8'));
+        this.ids = new Set(this.summaries.map(summary => summary.id));
+      }
+    } catch (error) {
+      console.error('Error loading game archive:', error);
+      this.summaries = [];
+    }
+  }
+
+  private gamePath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  // Lưu một ván đã kết thúc; bỏ qua nếu id đã có
+  saveGame(game: ArchivedGame): void {
+    if (this.hasGame(game.id)) return;
+
+    try {
+      fs.writeFileSync(this.gamePath(game.id), JSON.stringify(game));
+      const { moves, analysis, ...summary } = game;
+      this.summaries.push(summary);
+      this.ids.add(game.id);
+      fs.writeFileSync(this.indexPath, JSON.stringify(this.summaries));
+    } catch (error) {
+      console.error('Error saving game:', error);
+    }
+  }
+
+  // Gắn phân tích vào một ván đã lưu; phân tích chạy sau nên thường xong khi ván đã vào kho
+  saveAnalysis(id: string, analysis: MoveAnnotation[]): void {
+    const game = this.getGame(id);
+    if (!game) return;
+
+    try {
+      fs.writeFileSync(this.gamePath(id), JSON.stringify({ ...game, analysis }));
+    } catch (error) {
+      console.error('Error saving analysis:', error);
+    }
+  }
+
+  hasGame(id: string): boolean {
+    return this.ids.has(id);
+  }
+
+  // Lấy đầy đủ một ván theo id; chỉ đọc file của những ván có trong mục lục
+  getGame(id: string): ArchivedGame | null {
+    if (!this.hasGame(id)) return null;
+
+    try {
+      return JSON.parse(fs.readFileSync(this.gamePath(id), 'utf8'));
+    } catch (error) {
+      console.error('Error loading game:', error);
+      return null;
+    }
+  }
+
+  // Các ván của một player, mới nhất trước; page bắt đầu từ 1
+  getPlayerGames(nickname: string, page: number, limit: number): GamePage {
+    const normalizedNickname = nickname.toLowerCase().trim();
+    const games = this.summaries
+      .filter(summary => summary.players.some(p => !p.isAI && p.nickname === normalizedNickname))
+      .reverse();
+
+    return {
+      games: games.slice((page - 1) * limit, page * limit),
+      total: games.length,
+      page,
+      limit
+    };
+  }
+
+  getGameCount(): number {
+    return this.summaries.length;
+  }
+}
+
+// Export singleton instance
+export const gameArchive = new GameArchive();
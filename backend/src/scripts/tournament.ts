@@ -0,0 +1,246 @@
+// Headless round-robin between AI configurations - no server, no Socket.io.
+//
+//   npm run tournament -- --players easy,medium,hard,expert --games 200 --time 100
+//
+// A player is a difficulty, optionally with its own per-move budget in ms: "hard@500".
+// Budgets above the engine's cap (3000ms) are rejected rather than quietly cut down.
+// Every pairing plays --games games with colors alternating, so both sides open equally often.
+import { AIDifficulty, OthelloGame } from '../engine/OthelloGame';
+
+interface PlayerConfig {
+  label: string;
+  difficulty: AIDifficulty;
+  timeBudgetMs: number;
+}
+
+interface Tally {
+  wins: number;
+  draws: number;
+  losses: number;
+  discDiff: number; // summed over all games, from this player's side
+  games: number;
+}
+
+interface GameOutcome {
+  blackDiscs: number;
+  whiteDiscs: number;
+}
+
+const DEFAULT_PLAYERS = 'easy,medium,hard';
+const DEFAULT_GAMES = 100;
+const DEFAULT_TIME_MS = 100;
+// Elo scale: a 400 point gap means 10:1 odds
+const ELO_SCALE = 400;
+const ELO_BASE = 1500;
+
+function parseArgs(argv: string[]): Map<string, string> {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const [key, inlineValue] = arg.slice(2).split('=', 2);
+    if (inlineValue !== undefined) {
+      args.set(key, inlineValue);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      args.set(key, argv[++i]);
+    } else {
+      args.set(key, 'true');
+    }
+  }
+  return args;
+}
+
+function parsePlayer(spec: string, defaultTimeMs: number): PlayerConfig {
+  const [name, time] = spec.trim().toLowerCase().split('@');
+  const difficulty = Object.values(AIDifficulty).find(value => value === name);
+  if (!difficulty) {
+    throw new Error(`Unknown difficulty "${name}" (expected one of: ${Object.values(AIDifficulty).join(', ')})`);
+  }
+
+  const timeBudgetMs = time === undefined ? defaultTimeMs : Number(time);
+  if (!Number.isFinite(timeBudgetMs) || timeBudgetMs <= 0) {
+    throw new Error(`Invalid time budget in "${spec}"`);
+  }
+  const maxBudget = OthelloGame.maxTimeBudget(difficulty);
+  if (timeBudgetMs > maxBudget) {
+    throw new Error(`Time budget in "${spec}" is above the ${maxBudget}ms the ${difficulty} AI can use`);
+  }
+  return { label: spec.trim(), difficulty, timeBudgetMs };
+}
+
+function positiveInt(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`--${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+async function playGame(black: PlayerConfig, white: PlayerConfig): Promise<GameOutcome> {
+  let board = OthelloGame.createEmptyBoard();
+  let player = 1;
+
+  while (!OthelloGame.isGameOver(board)) {
+    const config = player === 1 ? black : white;
+    const move = await OthelloGame.makeAIMove(board, player, config.difficulty, config.timeBudgetMs);
+    if (move) {
+      board = OthelloGame.makeMove(board, move[0], move[1], player);
+    }
+    // No move means a pass; isGameOver already ruled out both sides being stuck
+    player = player === 1 ? 2 : 1;
+  }
+
+  const scores = OthelloGame.calculateScores(board);
+  return { blackDiscs: scores[1], whiteDiscs: scores[2] };
+}
+
+function emptyTally(): Tally {
+  return { wins: 0, draws: 0, losses: 0, discDiff: 0, games: 0 };
+}
+
+function record(tally: Tally, diff: number): void {
+  tally.games++;
+  tally.discDiff += diff;
+  if (diff > 0) tally.wins++;
+  else if (diff < 0) tally.losses++;
+  else tally.draws++;
+}
+
+function scoreOf(tally: Tally): number {
+  return tally.games ? (tally.wins + tally.draws / 2) / tally.games : 0.5;
+}
+
+// Elo gap implied by a score fraction; clamped so a clean sweep doesn't report infinity
+function eloDifference(score: number, games: number): number {
+  const margin = 1 / (2 * Math.max(games, 1));
+  const clamped = Math.min(1 - margin, Math.max(margin, score));
+  return -ELO_SCALE * Math.log10(1 / clamped - 1);
+}
+
+// Maximum-likelihood ratings over the whole round robin (Bradley-Terry, draws count half).
+// Every pairing gets one virtual draw so unbeaten or winless players still get a finite rating.
+function fitRatings(count: number, results: Tally[][]): number[] {
+  const strength = new Array(count).fill(1);
+
+  for (let iteration = 0; iteration < 1000; iteration++) {
+    let change = 0;
+
+    for (let i = 0; i < count; i++) {
+      let points = 0;
+      let denominator = 0;
+      for (let j = 0; j < count; j++) {
+        if (i === j || results[i][j].games === 0) continue;
+        const tally = results[i][j];
+        points += tally.wins + tally.draws / 2 + 0.5;
+        denominator += (tally.games + 1) / (strength[i] + strength[j]);
+      }
+      if (denominator === 0) continue;
+
+      const updated = points / denominator;
+      change = Math.max(change, Math.abs(updated - strength[i]) / strength[i]);
+      strength[i] = updated;
+    }
+
+    // Keep the geometric mean at 1 so the ratings stay centred on ELO_BASE
+    const logMean = strength.reduce((sum, s) => sum + Math.log(s), 0) / count;
+    for (let i = 0; i < count; i++) strength[i] /= Math.exp(logMean);
+
+    if (change < 1e-9) break;
+  }
+
+  return strength.map(s => ELO_BASE + ELO_SCALE * Math.log10(s));
+}
+
+function pad(text: string | number, width: number): string {
+  return String(text).padStart(width);
+}
+
+function formatDiff(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+function formatElo(value: number): string {
+  const rounded = Math.round(value);
+  return `${rounded >= 0 ? '+' : ''}${rounded}`;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.has('help')) {
+    console.log('Usage: npm run tournament -- [--players easy,medium,hard@500] [--games 100] [--time 100]');
+    return;
+  }
+
+  const defaultTimeMs = positiveInt(args.get('time'), DEFAULT_TIME_MS, 'time');
+  const gamesPerPairing = positiveInt(args.get('games'), DEFAULT_GAMES, 'games');
+  const players = (args.get('players') || DEFAULT_PLAYERS).split(',').filter(Boolean).map(spec => parsePlayer(spec, defaultTimeMs));
+  if (players.length < 2) {
+    throw new Error('A tournament needs at least two players');
+  }
+
+  // results[i][j]: games of player i against player j, from i's side
+  const results: Tally[][] = players.map(() => players.map(emptyTally));
+  const startedAt = Date.now();
+
+  console.log(`🏁 Tournament: ${players.map(p => p.label).join(' vs ')} - ${gamesPerPairing} games per pairing, ${defaultTimeMs}ms/move by default`);
+
+  for (let i = 0; i < players.length; i++) {
+    for (let j = i + 1; j < players.length; j++) {
+      const pairingStart = Date.now();
+
+      for (let game = 0; game < gamesPerPairing; game++) {
+        const iIsBlack = game % 2 === 0;
+        const outcome = iIsBlack
+          ? await playGame(players[i], players[j])
+          : await playGame(players[j], players[i]);
+        const blackDiff = outcome.blackDiscs - outcome.whiteDiscs;
+        const diff = iIsBlack ? blackDiff : -blackDiff;
+
+        record(results[i][j], diff);
+        record(results[j][i], -diff);
+      }
+
+      const tally = results[i][j];
+      console.log(
+        `  ${players[i].label} vs ${players[j].label}: ` +
+        `+${tally.wins} =${tally.draws} -${tally.losses}, ` +
+        `avg disc diff ${formatDiff(tally.discDiff / tally.games)}, ` +
+        `Elo diff ${formatElo(eloDifference(scoreOf(tally), tally.games))} ` +
+        `(${((Date.now() - pairingStart) / 1000).toFixed(1)}s)`
+      );
+    }
+  }
+
+  const ratings = fitRatings(players.length, results);
+  const standings = players
+    .map((player, index) => {
+      const total = emptyTally();
+      for (const tally of results[index]) {
+        total.wins += tally.wins;
+        total.draws += tally.draws;
+        total.losses += tally.losses;
+        total.discDiff += tally.discDiff;
+        total.games += tally.games;
+      }
+      return { player, total, rating: ratings[index] };
+    })
+    .sort((a, b) => b.rating - a.rating);
+
+  const labelWidth = Math.max(6, ...players.map(p => p.label.length));
+  console.log('');
+  console.log(`${'Player'.padEnd(labelWidth)} ${pad('Elo', 6)} ${pad('W', 6)} ${pad('D', 6)} ${pad('L', 6)} ${pad('Score', 7)} ${pad('Avg diff', 9)}`);
+  for (const { player, total, rating } of standings) {
+    console.log(
+      `${player.label.padEnd(labelWidth)} ${pad(Math.round(rating), 6)} ${pad(total.wins, 6)} ${pad(total.draws, 6)} ${pad(total.losses, 6)} ` +
+      `${pad((scoreOf(total) * 100).toFixed(1) + '%', 7)} ${pad(formatDiff(total.discDiff / total.games), 9)}`
+    );
+  }
+  console.log(`\n⏱️ Done in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+}
+
+main().catch(error => {
+  console.error('❌ Tournament failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -8,7 +8,14 @@ import helmet from 'helmet';
 import compression from 'compression';
 import { v4 as uuidv4 } from 'uuid';
 import { database, PlayerData } from './database';
+import { gameArchive, ArchivedGame, GameEndReason, MoveRecord } from './gameArchive';
 import { PlayerModel, LoginRequest, LoginResponse, getCoinChangeForResult, getResultMessage } from './models/Player';
+import { OthelloGame, AIDifficulty, PerfectResult } from './engine/OthelloGame';
+import { aiWorkerPool } from './engine/aiWorkerPool';
+import { getOpeningName } from './engine/openingBook';
+import { MoveAnnotation } from './engine/analysis';
+import { buildReplayFrames } from './engine/replay';
+import { formatMoveList, formatTranscript, parseTranscript, TranscriptHeaders } from './engine/transcript';
 
 const app = express();
 const server = createServer(app);
@@ -50,23 +57,125 @@ interface Player {
   // NEW: Add disconnection tracking
   isConnected?: boolean;
   disconnectedAt?: number;
+  // AI-controlled seat and the difficulty it plays at
+  isAI?: boolean;
+  aiDifficulty?: AIDifficulty;
 }
 
 interface GameState {
+  gameId: string; // id of this game in the archive
   board: (number | null)[][];
   currentPlayer: 1 | 2;
   players: Player[];
   gameStatus: 'waiting' | 'playing' | 'finished';
   scores: { 1: number; 2: number };
   validMoves: number[][];
-  timeLeft: number;
+  timeLeft: number;         // seconds the side to move had when its turn started, or when it last moved
+  timeControl: TimeControl;
+  // Remaining time bank per side in seconds (ms precision); chess-clock time controls only
+  clocks?: { 1: number; 2: number };
+  timeoutPolicy: TimeoutPolicy;
+  // Consecutive timeouts per side; a move of its own resets the count
+  timeouts: { 1: number; 2: number };
   winnerId?: string;
   lastMove?: { row: number; col: number; playerId: string };
+  // Every move played so far, in order
+  moveHistory: MoveRecord[];
+  // Engine annotations for each move, filled in after the game ends
+  analysis?: MoveAnnotation[];
   coinTransactions?: { playerId: string; nickname: string; oldCoins: number; newCoins: number; coinChange: number; result: string }[];
   coinsAwarded?: { playerId: string; amount: number; result: 'win' | 'lose' | 'draw' };
   // NEW: Surrender related fields
   surrenderedBy?: string; // playerId who surrendered
   surrenderReason?: string;
+  // Exact result from the endgame solver once few squares are left
+  perfectResult?: PerfectResult;
+  // Name of the last book opening the game passed through
+  openingName?: string;
+  // Move hints; only set in unranked (AI) games
+  hints?: HintState;
+  // Pause by mutual agreement; the clock only stops once the opponent accepts
+  pause?: PauseState;
+  // Draw offer waiting for the opponent's answer; lapses with the next move
+  drawOffer?: { playerId: string; playerName: string };
+  // Takeback waiting for the opponent's answer; cleared by the next move
+  undoRequest?: { playerId: string; playerName: string };
+  // Takebacks left this game; only set in AI games, where they need no approval
+  undosLeft?: number;
+  // After the game: one player asked for a rematch with colors swapped
+  rematchRequest?: { playerId: string; playerName: string };
+  // Running score of the games played in this room; same object as Room.series
+  series?: SeriesScore;
+  // Best-of-N match this game belongs to; same object as Room.match
+  match?: MatchState;
+  // People watching without a seat; copied from the room with every change
+  spectators?: Spectator[];
+  allowSpectators?: boolean;
+  // Nickname of the room's creator, who decides whether it can be watched
+  ownerNickname?: string;
+}
+
+interface MatchState {
+  bestOf: number;
+  gameNumber: number;       // 1-based number of the current (or just finished) game
+  wins: { [nickname: string]: number };
+  draws: number;
+  finished: boolean;
+  winner?: string;          // nickname; unset when a finished match is drawn
+  lastGameId?: string;      // last game counted, so a result is only counted once
+}
+
+interface SeriesScore {
+  wins: { [nickname: string]: number };
+  draws: number;
+  lastGameId?: string;      // last game counted, so a result is only counted once
+}
+
+// Someone watching a room without a seat: gets updates and chat, can't play
+interface Spectator {
+  id: string;               // socket id
+  displayName: string;
+  emoji: string;
+}
+
+// Position before a move, so a takeback can rewind to it
+interface GameSnapshot {
+  board: (number | null)[][];
+  scores: { 1: number; 2: number };
+  currentPlayer: 1 | 2;
+  validMoves: number[][];
+  moveCount: number;        // length of moveHistory at the time
+  lastMove?: { row: number; col: number; playerId: string };
+  openingName?: string;
+  timeouts: { 1: number; 2: number };
+}
+
+interface PauseState {
+  status: 'requested' | 'paused' | 'resuming';
+  requestedBy: string;       // playerId who asked for the pause
+  requestedByName: string;
+  resumeAt?: number;         // server time the clock restarts; 'resuming' only
+}
+
+// 'move': a fresh baseSeconds every turn, a timeout skips the turn.
+// 'fischer' / 'bronstein': each side has a baseSeconds bank and loses when it runs out;
+// bonusSeconds is added after every move (Fischer) or passes before the clock starts (Bronstein delay).
+interface TimeControl {
+  type: 'move' | 'fischer' | 'bronstein';
+  baseSeconds: number;
+  bonusSeconds: number;
+}
+
+// What happens when a per-move timer runs out; chess clocks always lose on time
+interface TimeoutPolicy {
+  type: 'skip' | 'random' | 'forfeit';  // pass the turn, play a random legal move, or pass until maxTimeouts
+  maxTimeouts?: number;                 // consecutive timeouts that lose the game; forfeit only
+}
+
+interface HintState {
+  limit: number;                          // hints per player per game
+  coinCost: number;                       // coins charged per hint (0 = free)
+  used: { [nickname: string]: number };
 }
 
 interface Room {
@@ -75,6 +184,30 @@ interface Room {
   messages: ChatMessage[];
   isAIGame?: boolean;
   aiDifficulty?: AIDifficulty;
+  // Color the human picked against the AI; 'random' is drawn again every game
+  humanColorChoice?: ColorChoice;
+  // AI-vs-AI room: both seats are AI, sockets in `spectators` only watch
+  isAIvsAI?: boolean;
+  aiMoveDelayMs?: number;
+  spectators?: Spectator[];
+  // Unset means watching is allowed; only the creator can turn it off
+  allowSpectators?: boolean;
+  // A hint search is running; one at a time per room
+  hintInProgress?: boolean;
+  // Time control picked when the room was created; kept for every game in the room
+  timeControl?: TimeControl;
+  timeoutPolicy?: TimeoutPolicy;
+  // Running turn on the clock: when it started, its Bronstein delay and when its time runs out
+  turnStartedAt?: number;
+  turnDelayMs?: number;
+  turnDeadline?: number;
+  // One snapshot per move played this game, newest last
+  undoStack?: GameSnapshot[];
+  // Results of the two-player games played in this room
+  series?: SeriesScore;
+  // Best-of-N match picked when the room was created; coins are settled when it ends
+  match?: MatchState;
+  matchAdvancedGameId?: string;
   createdAt: number;
   lastActivity: number;
   // NEW: Track room creator and allow reconnection
@@ -82,6 +215,8 @@ interface Room {
   allowReconnection?: boolean;
 }
 
+type ColorChoice = 'black' | 'white' | 'random';
+
 interface ChatMessage {
   id: string;
   playerId: string;
@@ -109,12 +244,6 @@ interface VoiceIceCandidate {
   candidate: any;
 }
 
-enum AIDifficulty {  
-  EASY = 'easy',
-  MEDIUM = 'medium',
-  HARD = 'hard'
-}
-
 // Store rooms and authenticated players
 const rooms = new Map<string, Room>();
 const roomTimers = new Map<string, NodeJS.Timeout>();
@@ -145,7 +274,7 @@ setInterval(() => {
         
         // Clear timer if exists
         if (roomTimers.has(roomId)) {
-          clearInterval(roomTimers.get(roomId)!);
+          clearTimeout(roomTimers.get(roomId)!);
           roomTimers.delete(roomId);
         }
 
@@ -156,6 +285,9 @@ setInterval(() => {
 
         // Remove voice room
         voiceRooms.delete(roomId);
+
+        // Stop any AI search still running for this room
+        aiWorkerPool.cancel(roomId);
         
         // Remove room
         rooms.delete(roomId);
@@ -202,6 +334,8 @@ function handlePlayerReconnection(socket: any, playerData: PlayerData, loginData
 
   // Reconnect the player
   const player = room.gameState.players[playerIndex];
+  // The result names the winner by socket id, so it moves with them
+  if (room.gameState.winnerId === player.id) room.gameState.winnerId = socket.id;
   player.id = socket.id; // Update socket ID
   player.isConnected = true;
   player.disconnectedAt = undefined;
@@ -218,15 +352,20 @@ function handlePlayerReconnection(socket: any, playerData: PlayerData, loginData
   // Notify room about reconnection
   io.to(roomId).emit('gameStateUpdate', room.gameState);
   
-  // Send reconnection success to the player
+  // Send reconnection success to the player, with the running turn's clock
   socket.emit('roomReconnected', { roomId, gameState: room.gameState });
+  if (room.gameState.gameStatus === 'playing' && room.turnStartedAt !== undefined) {
+    socket.emit('turnClock', turnClockInfo(room));
+  }
   
   console.log(`🔄 Player reconnected: ${playerData.nickname} to room ${roomId}`);
   return true;
 }
 
-// Helper function to award coins and update database (unchanged)
-function awardCoinsToPlayers(room: Room): void {
+// Helper function to award coins and update database
+// The winner comes from the disc count unless the game was decided another way (e.g. on time)
+// `result` forces the outcome (a loss on time, an agreed draw) instead of reading it from the scores
+function awardCoinsToPlayers(room: Room, result?: 1 | 2 | 'draw'): void {
   if (room.gameState.gameStatus !== 'finished') return;
   
   const scores = room.gameState.scores;
@@ -236,7 +375,13 @@ function awardCoinsToPlayers(room: Room): void {
   let player1Result: 'win' | 'lose' | 'draw';
   let player2Result: 'win' | 'lose' | 'draw';
   
-  if (scores[1] > scores[2]) {
+  if (result === 'draw') {
+    player1Result = 'draw';
+    player2Result = 'draw';
+  } else if (result) {
+    player1Result = result === 1 ? 'win' : 'lose';
+    player2Result = result === 1 ? 'lose' : 'win';
+  } else if (scores[1] > scores[2]) {
     player1Result = 'win';
     player2Result = 'lose';
   } else if (scores[2] > scores[1]) {
@@ -246,6 +391,18 @@ function awardCoinsToPlayers(room: Room): void {
     player1Result = 'draw';
     player2Result = 'draw';
   }
+
+  // In a match only its final result is settled
+  if (room.match) {
+    recordMatchGame(room);
+    if (!room.match.finished) {
+      room.gameState.coinTransactions = [];
+      return;
+    }
+    const matchWinner = room.match.winner;
+    player1Result = !matchWinner ? 'draw' : matchWinner === player1?.nickname ? 'win' : 'lose';
+    player2Result = !matchWinner ? 'draw' : matchWinner === player2?.nickname ? 'win' : 'lose';
+  }
   
   const coinTransactions: any[] = [];
   
@@ -314,6 +471,19 @@ function handleSurrender(room: Room, surrenderingPlayerId: string): void {
   }
 
   console.log(`🏳️ Handling surrender: ${surrenderingPlayer.displayName} surrenders to ${opponentPlayer.displayName}`);
+
+  // Surrendering a match game concedes the match, settled once like a match played to the end
+  if (room.match && !room.match.finished) {
+    room.gameState.gameStatus = 'finished';
+    room.gameState.winnerId = opponentPlayer.id;
+    room.gameState.surrenderedBy = surrenderingPlayerId;
+    room.gameState.surrenderReason = 'Player surrendered';
+    recordMatchGame(room);
+    room.match.finished = true;
+    room.match.winner = opponentPlayer.nickname;
+    awardCoinsToPlayers(room);
+    return;
+  }
   
   // Handle surrender in database
   const { surrenderer, opponent } = database.handleSurrender(surrenderingPlayer.displayName, opponentPlayer.displayName);
@@ -379,210 +549,6 @@ function notifyVoiceParticipants(roomId: string, event: string, data: any, exclu
   }
 }
 
-// Othello game logic (unchanged - keeping original implementation)
-class OthelloGame {
-  static DIRECTIONS = [
-    [-1, -1], [-1, 0], [-1, 1],
-    [0, -1],           [0, 1],
-    [1, -1],  [1, 0],  [1, 1]
-  ];
-
-  static createEmptyBoard(): (number | null)[][] {
-    const board = Array(8).fill(null).map(() => Array(8).fill(null));
-    
-    board[3][3] = 2;
-    board[3][4] = 1;
-    board[4][3] = 1;
-    board[4][4] = 2;
-    
-    return board;
-  }
-
-  static getValidMoves(board: (number | null)[][], player: number): number[][] {
-    const validMoves: number[][] = [];
-    
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        if (board[row][col] === null && this.canPlacePiece(board, row, col, player)) {
-          validMoves.push([row, col]);
-        }
-      }
-    }
-    
-    return validMoves;
-  }
-
-  static canPlacePiece(board: (number | null)[][], row: number, col: number, player: number): boolean {
-    for (const [dr, dc] of this.DIRECTIONS) {
-      if (this.wouldFlipInDirection(board, row, col, dr, dc, player)) {
-        return true;
-      }
-    }
-    return false;
-  }
-
-  static wouldFlipInDirection(
-    board: (number | null)[][], 
-    startRow: number, 
-    startCol: number, 
-    dr: number, 
-    dc: number, 
-    player: number
-  ): boolean {
-    const opponent = player === 1 ? 2 : 1;
-    let r = startRow + dr;
-    let c = startCol + dc;
-    let hasOpponentPieces = false;
-
-    while (r >= 0 && r < 8 && c >= 0 && c < 8) {
-      if (board[r][c] === null) return false;
-      if (board[r][c] === opponent) {
-        hasOpponentPieces = true;
-      } else if (board[r][c] === player) {
-        return hasOpponentPieces;
-      }
-      r += dr;
-      c += dc;
-    }
-    
-    return false;
-  }
-
-  static makeMove(board: (number | null)[][], row: number, col: number, player: number): (number | null)[][] {
-    const newBoard = board.map(r => [...r]);
-    newBoard[row][col] = player;
-
-    for (const [dr, dc] of this.DIRECTIONS) {
-      this.flipPiecesInDirection(newBoard, row, col, dr, dc, player);
-    }
-
-    return newBoard;
-  }
-
-  static flipPiecesInDirection(
-    board: (number | null)[][], 
-    startRow: number, 
-    startCol: number, 
-    dr: number, 
-    dc: number, 
-    player: number
-  ): void {
-    if (!this.wouldFlipInDirection(board, startRow, startCol, dr, dc, player)) return;
-
-    const opponent = player === 1 ? 2 : 1;
-    let r = startRow + dr;
-    let c = startCol + dc;
-
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c] === opponent) {
-      board[r][c] = player;
-      r += dr;
-      c += dc;
-    }
-  }
-
-  static calculateScores(board: (number | null)[][]): { 1: number; 2: number } {
-    const scores = { 1: 0, 2: 0 };
-    
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        if (board[row][col] === 1) scores[1]++;
-        if (board[row][col] === 2) scores[2]++;
-      }
-    }
-    
-    return scores;
-  }
-
-  static isGameOver(board: (number | null)[][]): boolean {
-    const player1Moves = this.getValidMoves(board, 1);
-    const player2Moves = this.getValidMoves(board, 2);
-    
-    return player1Moves.length === 0 && player2Moves.length === 0;
-  }
-
-  static makeAIMove(board: (number | null)[][], difficulty: AIDifficulty): number[] | null {
-    const validMoves = this.getValidMoves(board, 2);
-    if (validMoves.length === 0) return null;
-
-    switch (difficulty) {
-      case AIDifficulty.EASY:
-        return this.makeRandomMove(validMoves);
-      case AIDifficulty.MEDIUM:
-        return this.makeMediumMove(board, validMoves);
-      case AIDifficulty.HARD:
-        return this.makeHardMove(board, validMoves);
-      default:
-        return this.makeRandomMove(validMoves);
-    }
-  }
-
-  static makeRandomMove(validMoves: number[][]): number[] {
-    return validMoves[Math.floor(Math.random() * validMoves.length)];
-  }
-
-  static makeMediumMove(board: (number | null)[][], validMoves: number[][]): number[] {
-    const corners = validMoves.filter(([r, c]) => 
-      (r === 0 || r === 7) && (c === 0 || c === 7)
-    );
-    if (corners.length > 0) {
-      return corners[Math.floor(Math.random() * corners.length)];
-    }
-
-    const edges = validMoves.filter(([r, c]) => 
-      r === 0 || r === 7 || c === 0 || c === 7
-    );
-    if (edges.length > 0) {
-      return edges[Math.floor(Math.random() * edges.length)];
-    }
-
-    return this.makeRandomMove(validMoves);
-  }
-
-  static makeHardMove(board: (number | null)[][], validMoves: number[][]): number[] {
-    let bestMove = validMoves[0];
-    let bestScore = -Infinity;
-
-    for (const move of validMoves) {
-      const [row, col] = move;
-      const newBoard = this.makeMove(board, row, col, 2);
-      const score = this.evaluateBoard(newBoard, 2);
-      
-      if (score > bestScore) {
-        bestScore = score;
-        bestMove = move;
-      }
-    }
-
-    return bestMove;
-  }
-
-  static evaluateBoard(board: (number | null)[][], player: number): number {
-    const scores = this.calculateScores(board);
-    const opponent = player === 1 ? 2 : 1;
-    
-    let score = scores[player as 1 | 2] - scores[opponent as 1 | 2];
-    
-    const corners = [[0, 0], [0, 7], [7, 0], [7, 7]];
-    for (const [r, c] of corners) {
-      if (board[r][c] === player) score += 25;
-      if (board[r][c] === opponent) score -= 25;
-    }
-    
-    for (let i = 0; i < 8; i++) {
-      if (board[0][i] === player || board[7][i] === player || 
-          board[i][0] === player || board[i][7] === player) {
-        score += 5;
-      }
-      if (board[0][i] === opponent || board[7][i] === opponent || 
-          board[i][0] === opponent || board[i][7] === opponent) {
-        score -= 5;
-      }
-    }
-    
-    return score;
-  }
-}
-
 // Helper functions
 function generateRoomId(): string {
   let roomId: string;
@@ -605,18 +571,129 @@ function generateRoomId(): string {
   return roomId;
 }
 
-function createInitialGameState(): GameState {
+// Time controls a room can be created with; 'move-30' is the classic 30 seconds per move
+const TIME_CONTROL_PRESETS: { [id: string]: TimeControl } = {
+  'move-30': { type: 'move', baseSeconds: 30, bonusSeconds: 0 },
+  'fischer-3+2': { type: 'fischer', baseSeconds: 3 * 60, bonusSeconds: 2 },
+  'fischer-5+3': { type: 'fischer', baseSeconds: 5 * 60, bonusSeconds: 3 },
+  'bronstein-5+3': { type: 'bronstein', baseSeconds: 5 * 60, bonusSeconds: 3 },
+  'fischer-10+0': { type: 'fischer', baseSeconds: 10 * 60, bonusSeconds: 0 }
+};
+const DEFAULT_TIME_CONTROL = TIME_CONTROL_PRESETS['move-30'];
+
+function resolveTimeControl(presetId?: string): TimeControl {
+  return presetId && Object.prototype.hasOwnProperty.call(TIME_CONTROL_PRESETS, presetId)
+    ? TIME_CONTROL_PRESETS[presetId]
+    : DEFAULT_TIME_CONTROL;
+}
+
+// Timeout policies a room can be created with; 'skip' passes the turn as before
+const TIMEOUT_POLICY_PRESETS: { [id: string]: TimeoutPolicy } = {
+  'skip': { type: 'skip' },
+  'random': { type: 'random' },
+  'forfeit-2': { type: 'forfeit', maxTimeouts: 2 },
+  'forfeit-3': { type: 'forfeit', maxTimeouts: 3 }
+};
+const DEFAULT_TIMEOUT_POLICY = TIMEOUT_POLICY_PRESETS['skip'];
+
+function resolveTimeoutPolicy(presetId?: string): TimeoutPolicy {
+  return presetId && Object.prototype.hasOwnProperty.call(TIMEOUT_POLICY_PRESETS, presetId)
+    ? TIMEOUT_POLICY_PRESETS[presetId]
+    : DEFAULT_TIMEOUT_POLICY;
+}
+
+function createInitialGameState(
+  timeControl: TimeControl = DEFAULT_TIME_CONTROL,
+  timeoutPolicy: TimeoutPolicy = DEFAULT_TIMEOUT_POLICY
+): GameState {
   return {
+    gameId: uuidv4(),
     board: OthelloGame.createEmptyBoard(),
     currentPlayer: 1,
     players: [],
     gameStatus: 'waiting',
     scores: { 1: 2, 2: 2 },
     validMoves: OthelloGame.getValidMoves(OthelloGame.createEmptyBoard(), 1),
-    timeLeft: 30
+    timeLeft: timeControl.baseSeconds,
+    timeControl,
+    clocks: timeControl.type === 'move' ? undefined : { 1: timeControl.baseSeconds, 2: timeControl.baseSeconds },
+    timeoutPolicy,
+    timeouts: { 1: 0, 2: 0 },
+    moveHistory: []
+  };
+}
+
+// Ends the running turn on the clock, before the turn changes: sets timeLeft to what was left
+// and, with a chess clock, charges the time used (plus the Fischer increment after a move)
+function stopTurnClock(room: Room, moved: boolean): void {
+  const gameState = room.gameState;
+  if (room.turnStartedAt === undefined) return;
+
+  const elapsedMs = Date.now() - room.turnStartedAt;
+  room.turnStartedAt = undefined;
+
+  if (gameState.clocks) {
+    const player = gameState.currentPlayer;
+    const usedMs = Math.max(0, elapsedMs - (room.turnDelayMs || 0));
+    gameState.clocks[player] = Math.max(0, Math.round(gameState.clocks[player] * 1000 - usedMs) / 1000);
+    gameState.timeLeft = Math.ceil(gameState.clocks[player]);
+    if (moved && gameState.timeControl.type === 'fischer') {
+      gameState.clocks[player] += gameState.timeControl.bonusSeconds;
+    }
+  } else {
+    gameState.timeLeft = Math.max(0, Math.ceil(gameState.timeLeft - elapsedMs / 1000));
+  }
+}
+
+// Countdown between "resume" and the clock running again
+const RESUME_COUNTDOWN_MS = 3000;
+
+// What clients need to count the running turn down locally; serverNow lets them correct for clock offset
+function turnClockInfo(room: Room) {
+  return {
+    player: room.gameState.currentPlayer,
+    seconds: room.gameState.timeLeft,
+    deadline: room.turnDeadline,
+    serverNow: Date.now()
   };
 }
 
+// Called before the board changes, so currentPlayer is still the side that moved
+function recordMove(gameState: GameState, row: number, col: number): void {
+  gameState.moveHistory.push({
+    player: gameState.currentPlayer,
+    row,
+    col,
+    flipped: OthelloGame.getFlippedSquares(gameState.board, row, col, gameState.currentPlayer),
+    timestamp: Date.now(),
+    timeLeft: gameState.timeLeft
+  });
+}
+
+// Records a pass and tells the room about it, so a turn coming back is never a surprise
+function recordPass(roomId: string, player: 1 | 2, reason: 'no-moves' | 'timeout' | 'disconnect'): void {
+  const room = rooms.get(roomId);
+  if (!room) return;
+
+  const gameState = room.gameState;
+  gameState.moveHistory.push({
+    player,
+    row: -1,
+    col: -1,
+    flipped: [],
+    timestamp: Date.now(),
+    timeLeft: gameState.timeLeft,
+    pass: reason
+  });
+
+  const passingPlayer = gameState.players.find(p => p.color === (player === 1 ? 'black' : 'white'));
+  io.to(roomId).emit('turnPassed', {
+    player,
+    playerName: passingPlayer?.displayName || '',
+    reason
+  });
+}
+
 function updateRoomActivity(roomId: string): void {
   const room = rooms.get(roomId);
   if (room) {
@@ -624,37 +701,98 @@ function updateRoomActivity(roomId: string): void {
   }
 }
 
-function startTimer(roomId: string) {
+// Starts the turn of the side to move: one deadline, sent once, enforced by a single timeout.
+// `resume` continues a paused turn with the time it had left instead of a fresh one.
+function startTimer(roomId: string, resume = false) {
   const room = rooms.get(roomId);
   if (!room) return;
 
   if (roomTimers.has(roomId)) {
-    clearInterval(roomTimers.get(roomId)!);
+    clearTimeout(roomTimers.get(roomId)!);
   }
 
-  room.gameState.timeLeft = 30;
+  const { timeControl, clocks, currentPlayer } = room.gameState;
+  const turnMs = (clocks ? clocks[currentPlayer] : resume ? room.gameState.timeLeft : timeControl.baseSeconds) * 1000;
+  room.gameState.timeLeft = Math.ceil(turnMs / 1000);
+  room.turnStartedAt = Date.now();
+  // A resumed turn doesn't get its Bronstein delay again
+  room.turnDelayMs = timeControl.type === 'bronstein' && !resume ? timeControl.bonusSeconds * 1000 : 0;
+  room.turnDeadline = room.turnStartedAt + room.turnDelayMs + turnMs;
   updateRoomActivity(roomId);
+
+  io.to(roomId).emit('turnClock', turnClockInfo(room));
   
-  const timer = setInterval(() => {
-    room.gameState.timeLeft--;
-    
-    io.to(roomId).emit('timerUpdate', room.gameState.timeLeft);
-    
-    if (room.gameState.timeLeft <= 0) {
+  const timer = setTimeout(() => {
+    roomTimers.delete(roomId);
+    if (clocks) {
+      handleFlagFall(roomId);
+    } else {
       handleTurnSkip(roomId);
     }
-  }, 1000);
+  }, room.turnDeadline - room.turnStartedAt);
 
   roomTimers.set(roomId, timer);
 }
 
+// Chess clock ran out: the side to move loses, whatever the board says
+function handleFlagFall(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room || room.gameState.gameStatus !== 'playing') return;
+
+  clearTimeout(roomTimers.get(roomId)!);
+  roomTimers.delete(roomId);
+  updateRoomActivity(roomId);
+  stopTurnClock(room, false);
+  room.gameState.clocks![room.gameState.currentPlayer] = 0;
+  room.gameState.timeLeft = 0;
+
+  loseOnTime(roomId, room);
+}
+
+// Paused or counting down to resume: no moves, and the clock is stopped
+function isPaused(gameState: GameState): boolean {
+  return !!gameState.pause && gameState.pause.status !== 'requested';
+}
+
+// The side to move loses on time; settled like any other result
+function loseOnTime(roomId: string, room: Room) {
+  const winnerNum = room.gameState.currentPlayer === 1 ? 2 : 1;
+  room.gameState.gameStatus = 'finished';
+  room.gameState.winnerId = room.gameState.players.find(p => p.color === (winnerNum === 1 ? 'black' : 'white'))?.id;
+
+  awardCoinsToPlayers(room, winnerNum);
+
+  io.to(roomId).emit('gameStateUpdate', room.gameState);
+  handleGameFinished(roomId, 'timeout');
+}
+
 function handleTurnSkip(roomId: string) {
   const room = rooms.get(roomId);
   if (!room) return;
 
   updateRoomActivity(roomId);
+  stopTurnClock(room, false);
   const currentPlayerNum = room.gameState.currentPlayer;
   const nextPlayerNum = currentPlayerNum === 1 ? 2 : 1;
+  const policy = room.gameState.timeoutPolicy;
+
+  // playMove counts this timeout itself, after the undo snapshot
+  if (policy.type === 'random') {
+    const moves = room.gameState.validMoves;
+    const [row, col] = moves[Math.floor(Math.random() * moves.length)];
+    const playerToMove = room.gameState.players.find(p => p.color === (currentPlayerNum === 1 ? 'black' : 'white'));
+    io.to(roomId).emit('autoMove', { player: currentPlayerNum, playerName: playerToMove?.displayName || '', row, col });
+    playMove(roomId, room, row, col, playerToMove?.id || '', true);
+    return;
+  }
+
+  const timeouts = ++room.gameState.timeouts[currentPlayerNum];
+  if (policy.type === 'forfeit' && timeouts >= (policy.maxTimeouts || 1)) {
+    loseOnTime(roomId, room);
+    return;
+  }
+
+  recordPass(roomId, currentPlayerNum, 'timeout');
   
   const nextPlayerMoves = OthelloGame.getValidMoves(room.gameState.board, nextPlayerNum);
   
@@ -663,19 +801,12 @@ function handleTurnSkip(roomId: string) {
     room.gameState.validMoves = nextPlayerMoves;
     
     io.to(roomId).emit('gameStateUpdate', room.gameState);
-    
-    const aiPlayer = room.gameState.players.find(p => p.id === 'AI');
-    if (aiPlayer && room.gameState.currentPlayer === (aiPlayer.color === 'black' ? 1 : 2)) {
-      setTimeout(() => {
-        makeAIMove(roomId);
-      }, 1000);
-    } else {
-      startTimer(roomId);
-    }
+    reportPerfectResult(roomId);
+    scheduleNextTurn(roomId);
   } else {
     if (OthelloGame.isGameOver(room.gameState.board)) {
       room.gameState.gameStatus = 'finished';
-      clearInterval(roomTimers.get(roomId)!);
+      clearTimeout(roomTimers.get(roomId)!);
       roomTimers.delete(roomId);
       
       const scores = OthelloGame.calculateScores(room.gameState.board);
@@ -690,114 +821,503 @@ function handleTurnSkip(roomId: string) {
       awardCoinsToPlayers(room);
       
       io.to(roomId).emit('gameStateUpdate', room.gameState);
+      // Nobody can move: the board ended the game, not the clock
+      handleGameFinished(roomId, 'normal');
     } else {
-      room.gameState.currentPlayer = nextPlayerNum as 1 | 2;
-      room.gameState.validMoves = OthelloGame.getValidMoves(room.gameState.board, room.gameState.currentPlayer);
+      // The opponent has no move either, so the turn comes straight back
+      recordPass(roomId, nextPlayerNum as 1 | 2, 'no-moves');
+      room.gameState.validMoves = OthelloGame.getValidMoves(room.gameState.board, currentPlayerNum);
       
       io.to(roomId).emit('gameStateUpdate', room.gameState);
-      startTimer(roomId);
+      scheduleNextTurn(roomId);
     }
   }
 }
 
-function makeAIMove(roomId: string) {
+function resolveHumanColor(choice?: ColorChoice): 'black' | 'white' {
+  if (choice === 'random') return Math.random() < 0.5 ? 'black' : 'white';
+  return choice === 'white' ? 'white' : 'black';
+}
+
+// Black always takes the first seat: scores and coin results are read by seat
+function seatAIGamePlayers(humanPlayer: Player | undefined, aiPlayer: Player): Player[] {
+  if (!humanPlayer) return [aiPlayer];
+  return humanPlayer.color === 'black' ? [humanPlayer, aiPlayer] : [aiPlayer, humanPlayer];
+}
+
+// AI-controlled seats: the opponent in AI games and both sides in AI-vs-AI rooms
+function isAIPlayer(player: Player): boolean {
+  return player.isAI === true || player.id === 'AI';
+}
+
+// Delay before an AI move so moves stay watchable
+const AI_MOVE_DELAY_MS = 1000;
+const MIN_AI_MOVE_DELAY_MS = 200;
+const MAX_AI_MOVE_DELAY_MS = 5000;
+
+function createAIPlayer(color: 'black' | 'white', difficulty: AIDifficulty): Player {
+  return {
+    id: `AI-${color}`,
+    nickname: `ai-${color}`,
+    displayName: `AI ${color === 'black' ? 'Đen' : 'Trắng'} (${difficulty.toUpperCase()})`,
+    emoji: '🤖',
+    isReady: true,
+    color,
+    coins: 0,
+    isAuthenticated: false,
+    isConnected: true,
+    isAI: true,
+    aiDifficulty: difficulty
+  };
+}
+
+// Hand the turn to whoever is to move: AI seats get scheduled, humans get the turn timer
+function scheduleNextTurn(roomId: string) {
   const room = rooms.get(roomId);
-  if (!room) return;
+  if (!room || room.gameState.gameStatus !== 'playing') return;
 
-  updateRoomActivity(roomId);
-  const aiPlayer = room.gameState.players.find(p => p.id === 'AI');
-  if (!aiPlayer) return;
+  const currentColor = room.gameState.currentPlayer === 1 ? 'black' : 'white';
+  const playerToMove = room.gameState.players.find(p => p.color === currentColor);
+
+  if (playerToMove && isAIPlayer(playerToMove)) {
+    setTimeout(() => {
+      makeAIMove(roomId);
+    }, room.aiMoveDelayMs ?? AI_MOVE_DELAY_MS);
+  } else {
+    startTimer(roomId);
+  }
+}
+
+// Time kept in reserve so the AI always answers before its turn timer runs out
+const AI_TIME_SAFETY_MS = 2000;
+
+const UNDOS_PER_AI_GAME = 3;
+
+// Call before a move changes the position
+function pushUndoSnapshot(room: Room): void {
+  const gameState = room.gameState;
+  room.undoStack = room.undoStack || [];
+  room.undoStack.push({
+    board: gameState.board,
+    scores: gameState.scores,
+    currentPlayer: gameState.currentPlayer,
+    validMoves: gameState.validMoves,
+    moveCount: gameState.moveHistory.length,
+    lastMove: gameState.lastMove,
+    openingName: gameState.openingName,
+    timeouts: { ...gameState.timeouts }
+  });
+  gameState.undoRequest = undefined;
+}
+
+// Index of the snapshot taken before `player`'s latest move, or -1 if they haven't moved
+function findUndoSnapshot(room: Room, player: 1 | 2): number {
+  const stack = room.undoStack || [];
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i].currentPlayer === player) return i;
+  }
+  return -1;
+}
+
+// Rewinds to just before `player`'s latest move (taking back any reply too) and restarts that turn
+function applyUndo(roomId: string, room: Room, player: 1 | 2): void {
+  const index = findUndoSnapshot(room, player);
+  if (index === -1) return;
+
+  if (roomTimers.has(roomId)) {
+    clearTimeout(roomTimers.get(roomId)!);
+    roomTimers.delete(roomId);
+  }
+  aiWorkerPool.cancel(roomId);
+  // Time already used stays used; only the position goes back
+  stopTurnClock(room, false);
+
+  const snapshot = room.undoStack![index];
+  room.undoStack = room.undoStack!.slice(0, index);
+  const gameState = room.gameState;
+  gameState.board = snapshot.board;
+  gameState.scores = snapshot.scores;
+  gameState.currentPlayer = snapshot.currentPlayer;
+  gameState.validMoves = snapshot.validMoves;
+  gameState.moveHistory = gameState.moveHistory.slice(0, snapshot.moveCount);
+  gameState.lastMove = snapshot.lastMove;
+  gameState.openingName = snapshot.openingName;
+  // Timeouts in the undone moves no longer count toward a forfeit
+  gameState.timeouts = snapshot.timeouts;
+  gameState.perfectResult = undefined;
+  gameState.undoRequest = undefined;
+
+  const playerObj = gameState.players.find(p => p.color === (player === 1 ? 'black' : 'white'));
+  io.to(roomId).emit('moveUndone', { player, playerName: playerObj?.displayName || '' });
+  io.to(roomId).emit('gameStateUpdate', gameState);
+  scheduleNextTurn(roomId);
+}
 
-  const difficulty = room.aiDifficulty || AIDifficulty.MEDIUM;
+// Plays a validated move for the side to move and hands the turn on: a player's own move, a timeout or the AI's move
+function playMove(roomId: string, room: Room, row: number, col: number, playerId: string, timedOut = false) {
+  pushUndoSnapshot(room);
+  // A move of the player's own ends their timeout streak; one played for them on timeout extends it
+  if (timedOut) room.gameState.timeouts[room.gameState.currentPlayer]++;
+  else room.gameState.timeouts[room.gameState.currentPlayer] = 0;
+  room.gameState.drawOffer = undefined;
+  stopTurnClock(room, true);
+  recordMove(room.gameState, row, col);
+  room.gameState.board = OthelloGame.makeMove(room.gameState.board, row, col, room.gameState.currentPlayer);
+  room.gameState.scores = OthelloGame.calculateScores(room.gameState.board);
+  room.gameState.lastMove = { row, col, playerId };
+  room.gameState.openingName = getOpeningName(room.gameState.board) ?? room.gameState.openingName;
   
-  const aiMove = OthelloGame.makeAIMove(room.gameState.board, difficulty);
+  let nextPlayerNum = room.gameState.currentPlayer === 1 ? 2 : 1;
+  room.gameState.currentPlayer = nextPlayerNum as 1 | 2;
+  room.gameState.validMoves = OthelloGame.getValidMoves(room.gameState.board, room.gameState.currentPlayer);
   
-  if (aiMove) {
-    const [aiRow, aiCol] = aiMove;
-    
-    room.gameState.board = OthelloGame.makeMove(room.gameState.board, aiRow, aiCol, room.gameState.currentPlayer);
-    room.gameState.scores = OthelloGame.calculateScores(room.gameState.board);
-    room.gameState.lastMove = { row: aiRow, col: aiCol, playerId: aiPlayer.id };
-    
-    const humanPlayer = room.gameState.players.find(p => p.id !== 'AI');
-    room.gameState.currentPlayer = (humanPlayer?.color === 'black' ? 1 : 2) as 1 | 2;
-    room.gameState.validMoves = OthelloGame.getValidMoves(room.gameState.board, room.gameState.currentPlayer);
-    
-    if (room.gameState.validMoves.length === 0) {
-      if (OthelloGame.isGameOver(room.gameState.board)) {
-        room.gameState.gameStatus = 'finished';
-        clearInterval(roomTimers.get(roomId)!);
-        roomTimers.delete(roomId);
-        
-        const scores = OthelloGame.calculateScores(room.gameState.board);
-        if (scores[1] > scores[2]) {
-          room.gameState.winnerId = room.gameState.players.find(p => p.color === 'black')?.id;
-        } else if (scores[2] > scores[1]) {
-          room.gameState.winnerId = room.gameState.players.find(p => p.color === 'white')?.id;
-        } else {
-          room.gameState.winnerId = 'draw';
-        }
-        
-        awardCoinsToPlayers(room);
+  if (room.gameState.validMoves.length === 0) {
+    let otherPlayerNum = room.gameState.currentPlayer === 1 ? 2 : 1;
+    let otherPlayerMoves = OthelloGame.getValidMoves(room.gameState.board, otherPlayerNum);
+
+    if (otherPlayerMoves.length === 0) {
+      room.gameState.gameStatus = 'finished';
+      clearTimeout(roomTimers.get(roomId)!);
+      roomTimers.delete(roomId);
+      
+      const scores = OthelloGame.calculateScores(room.gameState.board);
+      if (scores[1] > scores[2]) {
+        room.gameState.winnerId = room.gameState.players.find(p => p.color === 'black')?.id;
+      } else if (scores[2] > scores[1]) {
+        room.gameState.winnerId = room.gameState.players.find(p => p.color === 'white')?.id;
       } else {
-        room.gameState.currentPlayer = (aiPlayer.color === 'black' ? 1 : 2) as 1 | 2;
-        room.gameState.validMoves = OthelloGame.getValidMoves(room.gameState.board, room.gameState.currentPlayer);
-        
-        io.to(roomId).emit('gameStateUpdate', room.gameState);
-        
-        setTimeout(() => {
-          makeAIMove(roomId);
-        }, 1000);
-        return;
+        room.gameState.winnerId = 'draw';
       }
-    }
-    
-    io.to(roomId).emit('gameStateUpdate', room.gameState);
-    
-    if (room.gameState.gameStatus === 'playing') {
-      startTimer(roomId);
-    }
-  } else {
-    const humanPlayer = room.gameState.players.find(p => p.id !== 'AI');
-    room.gameState.currentPlayer = (humanPlayer?.color === 'black' ? 1 : 2) as 1 | 2;
-    room.gameState.validMoves = OthelloGame.getValidMoves(room.gameState.board, room.gameState.currentPlayer);
-    
-    io.to(roomId).emit('gameStateUpdate', room.gameState);
-    
-    if (room.gameState.gameStatus === 'playing') {
-      startTimer(roomId);
+      
+      awardCoinsToPlayers(room);
+    } else {
+      recordPass(roomId, room.gameState.currentPlayer, 'no-moves');
+      room.gameState.currentPlayer = otherPlayerNum as 1 | 2;
+      room.gameState.validMoves = otherPlayerMoves;
     }
   }
+  
+  io.to(roomId).emit('gameStateUpdate', room.gameState);
+  reportPerfectResult(roomId);
+  handleGameFinished(roomId, 'normal');
+  scheduleNextTurn(roomId);
 }
 
-// Socket.io event handlers
-io.on('connection', (socket) => {
-  console.log('User connected:', socket.id);
+async function makeAIMove(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room || room.gameState.gameStatus !== 'playing') return;
 
-  // UPDATED: Player login with reconnection support
-  socket.on('loginPlayer', (data: LoginRequest) => {
-    console.log('🔐 Login request received:', { socketId: socket.id, nickname: data.nickname, emoji: data.emoji });
-    
-    try {
-      const { nickname, emoji, pieceEmoji } = data;
-      
-      if (!nickname || nickname.trim().length === 0) {
-        console.log('❌ Login failed: Empty nickname');
-        socket.emit('loginResponse', {
-          success: false,
-          message: 'Nickname không được để trống'
-        } as LoginResponse);
-        return;
-      }
-      
-      if (nickname.trim().length > 20) {
-        console.log('❌ Login failed: Nickname too long');
-        socket.emit('loginResponse', {
-          success: false,
-          message: 'Nickname không được dài quá 20 ký tự'
-        } as LoginResponse);
-        return;
-      }
+  updateRoomActivity(roomId);
+  const currentColor = room.gameState.currentPlayer === 1 ? 'black' : 'white';
+  const aiPlayer = room.gameState.players.find(p => p.color === currentColor && isAIPlayer(p));
+  if (!aiPlayer) return;
+
+  const difficulty = aiPlayer.aiDifficulty || room.aiDifficulty || AIDifficulty.MEDIUM;
+
+  // The AI's turn runs on the same timer as a human turn
+  startTimer(roomId);
+  const boardBeforeMove = room.gameState.board;
+  const currentPlayerBeforeMove = room.gameState.currentPlayer;
+  const timeBudgetMs = room.gameState.timeLeft * 1000 - AI_TIME_SAFETY_MS;
+
+  const aiMove = await aiWorkerPool.requestMove(roomId, {
+    board: boardBeforeMove,
+    player: currentPlayerBeforeMove,
+    difficulty,
+    timeBudgetMs
+  });
+
+  // The room may have been deleted, reset or had its turn skipped while the AI was thinking
+  if (rooms.get(roomId) !== room ||
+      room.gameState.gameStatus !== 'playing' ||
+      room.gameState.board !== boardBeforeMove ||
+      room.gameState.currentPlayer !== currentPlayerBeforeMove) {
+    return;
+  }
+  
+  // A failed search still has to move, like a timeout under the 'random' policy
+  const validMoves = room.gameState.validMoves;
+  const [aiRow, aiCol] = aiMove || validMoves[Math.floor(Math.random() * validMoves.length)];
+  playMove(roomId, room, aiRow, aiCol, aiPlayer.id);
+}
+
+// Hints: per-game limit, search time and an optional coin price (HINT_COIN_COST env var)
+const HINTS_PER_GAME = 3;
+const HINT_TIME_MS = 1000;
+const HINT_COIN_COST = Math.max(0, parseInt(process.env.HINT_COIN_COST || '', 10) || 0);
+
+// PvP games are ranked (coins and stats at stake), so only AI games get hints
+function createHintState(): HintState {
+  return { limit: HINTS_PER_GAME, coinCost: HINT_COIN_COST, used: {} };
+}
+
+// Empty squares at which the solver reports the perfect result, and its time limit
+const PERFECT_RESULT_EMPTIES = 10;
+const PERFECT_RESULT_TIME_MS = 1000;
+
+// Like hints, the solver's verdict is engine help, so ranked PvP games never get it
+async function reportPerfectResult(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room || !room.isAIGame || room.gameState.gameStatus !== 'playing') return;
+
+  const board = room.gameState.board;
+  const currentPlayer = room.gameState.currentPlayer;
+  if (OthelloGame.countEmpties(board) > PERFECT_RESULT_EMPTIES) return;
+
+  const perfectResult = await aiWorkerPool.requestPerfectResult(roomId, {
+    board,
+    player: currentPlayer,
+    timeBudgetMs: PERFECT_RESULT_TIME_MS
+  });
+
+  // Drop the result if the position moved on while solving
+  if (!perfectResult ||
+      rooms.get(roomId) !== room ||
+      room.gameState.gameStatus !== 'playing' ||
+      room.gameState.board !== board ||
+      room.gameState.currentPlayer !== currentPlayer) {
+    return;
+  }
+
+  room.gameState.perfectResult = perfectResult;
+  io.to(roomId).emit('gameStateUpdate', room.gameState);
+}
+
+// Once a game has ended: save it to the archive and start the post-game analysis
+function handleGameFinished(roomId: string, reason: GameEndReason) {
+  advanceMatch(roomId);
+  recordSeriesResult(roomId);
+  archiveFinishedGame(roomId, reason);
+  analyzeFinishedGame(roomId);
+}
+
+// A surrender, a loss on time or an agreed draw decides the result regardless of the discs on the board
+function getWinnerColor(gameState: GameState): 'black' | 'white' | 'draw' {
+  if (gameState.winnerId === 'draw') return 'draw';
+  const winnerColor = gameState.players.find(p => p.id === gameState.winnerId)?.color;
+  if (winnerColor) return winnerColor;
+
+  const scores = OthelloGame.calculateScores(gameState.board);
+  return scores[1] > scores[2] ? 'black' : scores[2] > scores[1] ? 'white' : 'draw';
+}
+
+// Match formats a room can be created with; 1 is a single game
+const MATCH_FORMATS = [1, 3, 5];
+const MATCH_NEXT_GAME_DELAY_MS = 5000;
+
+function createMatch(bestOf: number): MatchState {
+  return { bestOf, gameNumber: 1, wins: {}, draws: 0, finished: false };
+}
+
+// Counts a finished game towards the room's match and decides the match once someone
+// has a majority of the games or all of them are played
+function recordMatchGame(room: Room): void {
+  const match = room.match;
+  if (!match || match.finished || match.lastGameId === room.gameState.gameId) return;
+  match.lastGameId = room.gameState.gameId;
+
+  const winnerColor = getWinnerColor(room.gameState);
+  const winner = room.gameState.players.find(p => p.color === winnerColor);
+  if (winner) {
+    match.wins[winner.nickname] = (match.wins[winner.nickname] || 0) + 1;
+  } else {
+    match.draws++;
+  }
+
+  const [first, second] = room.gameState.players.map(p => match.wins[p.nickname] || 0);
+  if (Math.max(first, second) > match.bestOf / 2 || match.gameNumber >= match.bestOf) {
+    match.finished = true;
+    match.winner = first === second ? undefined
+      : room.gameState.players[first > second ? 0 : 1].nickname;
+  }
+}
+
+// After a match game: the next one starts with colors swapped, unless the match is over.
+// A surrender has already conceded the whole match in handleSurrender.
+function advanceMatch(roomId: string) {
+  const room = rooms.get(roomId);
+  const match = room?.match;
+  if (!room || !match || room.gameState.gameStatus !== 'finished') return;
+  if (room.matchAdvancedGameId === room.gameState.gameId) return;
+  room.matchAdvancedGameId = room.gameState.gameId;
+
+  recordMatchGame(room);
+  if (!match.finished) {
+    roomTimers.set(roomId, setTimeout(() => {
+      roomTimers.delete(roomId);
+      if (rooms.get(roomId) !== room || room.match !== match || room.gameState.gameStatus !== 'finished') return;
+      match.gameNumber++;
+      startRematch(roomId, room);
+    }, MATCH_NEXT_GAME_DELAY_MS));
+  }
+  io.to(roomId).emit('gameStateUpdate', room.gameState);
+}
+
+// Adds a finished two-player game to the room's running score
+function recordSeriesResult(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room || room.isAIGame || room.isAIvsAI || room.gameState.gameStatus !== 'finished') return;
+
+  const series = room.series = room.series || { wins: {}, draws: 0 };
+  room.gameState.series = series;
+  if (series.lastGameId === room.gameState.gameId) return;
+  series.lastGameId = room.gameState.gameId;
+
+  const winnerColor = getWinnerColor(room.gameState);
+  const winner = room.gameState.players.find(p => p.color === winnerColor);
+  if (winner) {
+    series.wins[winner.nickname] = (series.wins[winner.nickname] || 0) + 1;
+  } else {
+    series.draws++;
+  }
+  io.to(roomId).emit('gameStateUpdate', room.gameState);
+}
+
+// Room-level state shown with whichever game the room is playing
+function attachRoomState(room: Room) {
+  room.gameState.series = room.series;
+  room.gameState.match = room.match;
+  room.gameState.spectators = room.spectators;
+  room.gameState.allowSpectators = room.allowSpectators !== false;
+  room.gameState.ownerNickname = room.creatorNickname;
+}
+
+// Copies of the room's players with coins re-read from the database, for the next game
+function refreshedPlayers(room: Room): Player[] {
+  return room.gameState.players.map(p => {
+    if (p.isAuthenticated && p.id !== 'AI') {
+      const playerData = database.getPlayer(p.displayName);
+      if (playerData) {
+        return { ...p, coins: playerData.coins };
+      }
+    }
+    return { ...p };
+  });
+}
+
+// Accepted rematch: colors swap and the game starts without the ready step
+function startRematch(roomId: string, room: Room) {
+  if (roomTimers.has(roomId)) {
+    clearTimeout(roomTimers.get(roomId)!);
+    roomTimers.delete(roomId);
+  }
+  aiWorkerPool.cancel(roomId);
+
+  // players[0] always plays black, so swapping the seats swaps the colors
+  const [previousBlack, previousWhite] = refreshedPlayers(room);
+  room.gameState = createInitialGameState(room.timeControl, room.timeoutPolicy);
+  room.undoStack = [];
+  room.gameState.players = [
+    { ...previousWhite, color: 'black', isReady: true },
+    { ...previousBlack, color: 'white', isReady: true }
+  ];
+  attachRoomState(room);
+  room.gameState.gameStatus = 'playing';
+
+  io.to(roomId).emit('gameStateUpdate', room.gameState);
+  startTimer(roomId);
+}
+
+function archiveFinishedGame(roomId: string, reason: GameEndReason) {
+  const room = rooms.get(roomId);
+  if (!room || room.gameState.gameStatus !== 'finished') return;
+
+  const gameState = room.gameState;
+  const scores = OthelloGame.calculateScores(gameState.board);
+
+  const game: ArchivedGame = {
+    id: gameState.gameId,
+    players: gameState.players.map(p => ({
+      nickname: p.nickname,
+      displayName: p.displayName,
+      emoji: p.emoji,
+      color: p.color!,
+      pieceEmoji: p.pieceEmoji,
+      isAI: isAIPlayer(p) || undefined,
+      aiDifficulty: isAIPlayer(p) ? p.aiDifficulty || room.aiDifficulty : undefined
+    })),
+    scores,
+    winner: getWinnerColor(gameState),
+    reason,
+    coinChanges: (gameState.coinTransactions || []).map(t => ({
+      nickname: t.nickname.toLowerCase(),
+      oldCoins: t.oldCoins,
+      newCoins: t.newCoins,
+      coinChange: t.coinChange
+    })),
+    openingName: gameState.openingName,
+    moveCount: gameState.moveHistory.filter(move => !move.pass).length,
+    finishedAt: new Date().toISOString(),
+    moves: gameState.moveHistory
+  };
+
+  gameArchive.saveGame(game);
+}
+
+// Transcript headers for a game, archived or still in a room
+function transcriptHeaders(players: { displayName: string; color?: 'black' | 'white' }[], date: string, scores?: { 1: number; 2: number }): TranscriptHeaders {
+  const headers: TranscriptHeaders = {
+    Black: players.find(p => p.color === 'black')?.displayName || '?',
+    White: players.find(p => p.color === 'white')?.displayName || '?',
+    Date: date.slice(0, 10)
+  };
+  if (scores) headers.Result = `${scores[1]}-${scores[2]}`;
+  return headers;
+}
+
+// Longest transcript text accepted for import
+const MAX_TRANSCRIPT_LENGTH = 5000;
+
+// Annotate every move of a finished game and send the result with the final position
+async function analyzeFinishedGame(roomId: string) {
+  const room = rooms.get(roomId);
+  if (!room || room.gameState.gameStatus !== 'finished') return;
+
+  const gameState = room.gameState;
+  if (!gameState.moveHistory.some(move => !move.pass)) return;
+
+  const moves = gameState.moveHistory
+    .filter(move => !move.pass)
+    .map(({ player, row, col }) => ({ player, row, col }));
+  const analysis = await aiWorkerPool.requestAnalysis(gameState.gameId, { moves });
+  if (!analysis) return;
+  gameArchive.saveAnalysis(gameState.gameId, analysis);
+
+  // A new game may have started while analysing; the archive still has this one's
+  if (rooms.get(roomId) !== room || room.gameState !== gameState) return;
+
+  gameState.analysis = analysis;
+  io.to(roomId).emit('gameStateUpdate', gameState);
+}
+
+// Socket.io event handlers
+io.on('connection', (socket) => {
+  console.log('User connected:', socket.id);
+
+  // UPDATED: Player login with reconnection support
+  socket.on('loginPlayer', (data: LoginRequest) => {
+    console.log('🔐 Login request received:', { socketId: socket.id, nickname: data.nickname, emoji: data.emoji });
+    
+    try {
+      const { nickname, emoji, pieceEmoji } = data;
+      
+      if (!nickname || nickname.trim().length === 0) {
+        console.log('❌ Login failed: Empty nickname');
+        socket.emit('loginResponse', {
+          success: false,
+          message: 'Nickname không được để trống'
+        } as LoginResponse);
+        return;
+      }
+      
+      if (nickname.trim().length > 20) {
+        console.log('❌ Login failed: Nickname too long');
+        socket.emit('loginResponse', {
+          success: false,
+          message: 'Nickname không được dài quá 20 ký tự'
+        } as LoginResponse);
+        return;
+      }
       
       const existingPlayer = database.getPlayer(nickname.trim());
       const isNewPlayer = !existingPlayer;
@@ -887,6 +1407,92 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Replay of a finished game, rebuilt ply by ply with the rules engine; needs no login
+  socket.on('getReplay', (gameId: string) => {
+    const game = gameArchive.getGame(gameId);
+    if (!game) {
+      socket.emit('error', 'Không tìm thấy ván đấu');
+      return;
+    }
+
+    const frames = buildReplayFrames(game.moves);
+    if (!frames) {
+      console.error(`💥 Replay of game ${gameId} has an illegal move`);
+      socket.emit('error', 'Không thể dựng lại ván đấu');
+      return;
+    }
+
+    socket.emit('replayData', { game, frames });
+  });
+
+  // Transcript of an archived game, or of a game still being played
+  socket.on('getTranscript', (gameId: string) => {
+    const archived = gameArchive.getGame(gameId);
+    const room = archived ? undefined : Array.from(rooms.values()).find(r => r.gameState.gameId === gameId);
+    if (!archived && !room) {
+      socket.emit('error', 'Không tìm thấy ván đấu');
+      return;
+    }
+
+    const moves = archived ? archived.moves : room!.gameState.moveHistory;
+    const headers = archived
+      ? transcriptHeaders(archived.players, archived.finishedAt, archived.scores)
+      : transcriptHeaders(
+          room!.gameState.players,
+          new Date().toISOString(),
+          room!.gameState.gameStatus === 'finished' ? room!.gameState.scores : undefined
+        );
+
+    socket.emit('transcript', {
+      gameId,
+      moveList: formatMoveList(moves),
+      text: formatTranscript(headers, moves)
+    });
+  });
+
+  // Builds a replay from pasted transcript text; nothing is stored
+  socket.on('loadTranscript', (text: string) => {
+    if (typeof text !== 'string' || !text.trim() || text.length > MAX_TRANSCRIPT_LENGTH) {
+      socket.emit('error', 'Biên bản ván đấu không hợp lệ');
+      return;
+    }
+
+    const parsed = parseTranscript(text);
+    if ('error' in parsed) {
+      socket.emit('error', parsed.error === 'illegal'
+        ? `Nước thứ ${parsed.moveNumber} (${parsed.token}) không hợp lệ`
+        : `Không đọc được biên bản ở nước thứ ${parsed.moveNumber} ("${parsed.token}")`);
+      return;
+    }
+
+    const frames = buildReplayFrames(parsed.moves)!;
+    const finalScores = frames[frames.length - 1].scores;
+    const game: ArchivedGame = {
+      id: '',
+      players: [
+        { nickname: '', displayName: parsed.headers.Black || 'Đen', emoji: '⚫', color: 'black' },
+        { nickname: '', displayName: parsed.headers.White || 'Trắng', emoji: '⚪', color: 'white' }
+      ],
+      scores: finalScores,
+      winner: finalScores[1] > finalScores[2] ? 'black' : finalScores[2] > finalScores[1] ? 'white' : 'draw',
+      reason: 'normal',
+      coinChanges: [],
+      moveCount: parsed.moves.filter(move => !move.pass).length,
+      finishedAt: parsed.headers.Date || new Date().toISOString(),
+      moves: frames.slice(1).map(frame => ({
+        player: frame.move!.player,
+        row: frame.move!.row,
+        col: frame.move!.col,
+        flipped: frame.flipped,
+        timestamp: 0,
+        timeLeft: 0,
+        pass: frame.move!.pass
+      }))
+    };
+
+    socket.emit('replayData', { game, frames });
+  });
+
   socket.on('getPlayerData', (nickname: string) => {
     try {
       const playerData = database.getPlayer(nickname.trim());
@@ -911,7 +1517,7 @@ io.on('connection', (socket) => {
   });
 
   // UPDATED: Create room with better tracking
-  socket.on('createRoom', (playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }) => {
+  socket.on('createRoom', (playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string }; timeControl?: string; timeoutPolicy?: string; bestOf?: number }) => {
     console.log('🏠 Create room request from:', socket.id, playerData);
     
     const authenticatedPlayer = authenticatedPlayers.get(socket.id);
@@ -923,7 +1529,12 @@ io.on('connection', (socket) => {
 
     try {
       const roomId = generateRoomId();
-      const gameState = createInitialGameState();
+      const timeControl = resolveTimeControl(playerData.timeControl);
+      const timeoutPolicy = resolveTimeoutPolicy(playerData.timeoutPolicy);
+      const gameState = createInitialGameState(timeControl, timeoutPolicy);
+      const bestOf = MATCH_FORMATS.includes(Number(playerData.bestOf)) ? Number(playerData.bestOf) : 1;
+      const match = bestOf > 1 ? createMatch(bestOf) : undefined;
+      gameState.match = match;
       
       const player: Player = {
         id: socket.id,
@@ -945,11 +1556,16 @@ io.on('connection', (socket) => {
         gameState,
         messages: [],
         isAIGame: false,
+        timeControl,
+        timeoutPolicy,
+        match,
         createdAt: Date.now(),
         lastActivity: Date.now(),
         creatorNickname: authenticatedPlayer.displayName.toLowerCase(), // Track creator
-        allowReconnection: true // Allow reconnection for this room
+        allowReconnection: true, // Allow reconnection for this room
+        allowSpectators: true
       };
+      attachRoomState(room);
       
       rooms.set(roomId, room);
       socket.join(roomId);
@@ -993,11 +1609,35 @@ io.on('connection', (socket) => {
       return;
     }
     
-    // Check if room has space (accounting for disconnected players)
+    // Check if room has space (accounting for disconnected players); a full room can still be watched
     const connectedPlayers = room.gameState.players.filter(p => p.isConnected);
     if (connectedPlayers.length >= 2) {
-      console.log('❌ Join room failed: Room is full:', roomId);
-      socket.emit('error', 'Phòng đã đầy. Không thể tham gia.');
+      if (room.allowSpectators === false) {
+        console.log('❌ Join room failed: Room is full:', roomId);
+        socket.emit('error', 'Phòng đã đầy và chủ phòng không cho người xem.');
+        return;
+      }
+
+      if (room.gameState.players.some(p => p.id === socket.id) || room.spectators?.some(s => s.id === socket.id)) {
+        socket.emit('error', 'Bạn đã ở trong phòng này rồi.');
+        return;
+      }
+
+      room.spectators = [...(room.spectators || []), {
+        id: socket.id,
+        displayName: authenticatedPlayer.displayName,
+        emoji: playerData.emoji
+      }];
+      attachRoomState(room);
+      updateRoomActivity(roomId);
+      socket.join(roomId);
+
+      console.log(`👀 Spectator joined room: ${roomId} - ${authenticatedPlayer.displayName}`);
+      io.to(roomId).emit('gameStateUpdate', room.gameState);
+      socket.emit('roomJoined', { roomId, gameState: room.gameState, asSpectator: true });
+      if (room.gameState.gameStatus === 'playing' && room.turnStartedAt !== undefined) {
+        socket.emit('turnClock', turnClockInfo(room));
+      }
       return;
     }
 
@@ -1009,6 +1649,7 @@ io.on('connection', (socket) => {
     if (existingPlayerIndex !== -1) {
       // Reconnect existing player
       const existingPlayer = room.gameState.players[existingPlayerIndex];
+      if (room.gameState.winnerId === existingPlayer.id) room.gameState.winnerId = socket.id;
       existingPlayer.id = socket.id;
       existingPlayer.isConnected = true;
       existingPlayer.disconnectedAt = undefined;
@@ -1066,7 +1707,7 @@ io.on('connection', (socket) => {
   });
 
   // AI Game creation (unchanged but add tracking)
-  socket.on('createAIGame', (data: { playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }; difficulty: AIDifficulty }) => {
+  socket.on('createAIGame', (data: { playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }; difficulty: AIDifficulty; color?: ColorChoice }) => {
     console.log('🤖 Create AI game request from:', socket.id, 'difficulty:', data.difficulty);
     
     const authenticatedPlayer = authenticatedPlayers.get(socket.id);
@@ -1079,6 +1720,7 @@ io.on('connection', (socket) => {
     try {
       const roomId = generateRoomId();
       const gameState = createInitialGameState();
+      const humanColor = resolveHumanColor(data.color);
       
       const humanPlayer: Player = {
         id: socket.id,
@@ -1086,7 +1728,7 @@ io.on('connection', (socket) => {
         displayName: authenticatedPlayer.displayName,
         emoji: data.playerData.emoji,
         isReady: true,
-        color: 'black',
+        color: humanColor,
         pieceEmoji: data.playerData.pieceEmoji,
         coins: authenticatedPlayer.coins,
         isAuthenticated: true,
@@ -1099,15 +1741,17 @@ io.on('connection', (socket) => {
         displayName: `AI (${data.difficulty.toUpperCase()})`,
         emoji: '🤖',
         isReady: true,
-        color: 'white',
+        color: humanColor === 'black' ? 'white' : 'black',
         pieceEmoji: data.playerData.pieceEmoji,
         coins: 0,
         isAuthenticated: false,
         isConnected: true
       };
       
-      gameState.players = [humanPlayer, aiPlayer];
+      gameState.players = seatAIGamePlayers(humanPlayer, aiPlayer);
       gameState.gameStatus = 'playing';
+      gameState.hints = createHintState();
+      gameState.undosLeft = UNDOS_PER_AI_GAME;
       
       const room: Room = {
         id: roomId,
@@ -1115,6 +1759,7 @@ io.on('connection', (socket) => {
         messages: [],
         isAIGame: true,
         aiDifficulty: data.difficulty,
+        humanColorChoice: data.color,
         createdAt: Date.now(),
         lastActivity: Date.now(),
         creatorNickname: authenticatedPlayer.displayName.toLowerCase(),
@@ -1127,7 +1772,7 @@ io.on('connection', (socket) => {
       // NEW: Track player-room mapping for AI games too
       playerRoomMapping.set(authenticatedPlayer.nickname, roomId);
       
-      startTimer(roomId);
+      scheduleNextTurn(roomId);
       
       console.log(`✅ AI game created: ${roomId} by ${authenticatedPlayer.displayName} vs AI(${data.difficulty})`);
       socket.emit('aiGameCreated', { roomId, gameState, difficulty: data.difficulty });
@@ -1138,60 +1783,407 @@ io.on('connection', (socket) => {
     }
   });
 
-  // NEW: Surrender request handler
-  socket.on('surrenderRequest', (roomId: string) => {
-    console.log('🏳️ Surrender request from:', socket.id, 'in room:', roomId);
-    
+  // AI-vs-AI game: both seats are AI, the creator watches
+  socket.on('createAIvsAIGame', (data: { blackDifficulty: AIDifficulty; whiteDifficulty: AIDifficulty; moveDelayMs?: number }) => {
+    console.log('🤖 Create AI-vs-AI game request from:', socket.id, data);
+    
+    const authenticatedPlayer = authenticatedPlayers.get(socket.id);
+    if (!authenticatedPlayer) {
+      socket.emit('error', 'Bạn cần đăng nhập trước khi xem AI đấu');
+      return;
+    }
+    
+    const difficulties = Object.values(AIDifficulty);
+    if (!difficulties.includes(data.blackDifficulty) || !difficulties.includes(data.whiteDifficulty)) {
+      socket.emit('error', 'Độ khó không hợp lệ');
+      return;
+    }
+
+    try {
+      const roomId = generateRoomId();
+      const gameState = createInitialGameState();
+      gameState.players = [
+        createAIPlayer('black', data.blackDifficulty),
+        createAIPlayer('white', data.whiteDifficulty)
+      ];
+      gameState.gameStatus = 'playing';
+      
+      const moveDelayMs = Math.min(MAX_AI_MOVE_DELAY_MS, Math.max(MIN_AI_MOVE_DELAY_MS, data.moveDelayMs ?? AI_MOVE_DELAY_MS));
+      const room: Room = {
+        id: roomId,
+        gameState,
+        messages: [],
+        isAIGame: true,
+        isAIvsAI: true,
+        aiMoveDelayMs: moveDelayMs,
+        spectators: [{ id: socket.id, displayName: authenticatedPlayer.displayName, emoji: authenticatedPlayer.emoji }],
+        createdAt: Date.now(),
+        lastActivity: Date.now()
+      };
+      attachRoomState(room);
+      
+      rooms.set(roomId, room);
+      socket.join(roomId);
+      
+      scheduleNextTurn(roomId);
+      
+      console.log(`✅ AI-vs-AI game created: ${roomId} (${data.blackDifficulty} vs ${data.whiteDifficulty}, ${moveDelayMs}ms)`);
+      socket.emit('aiVsAiGameCreated', { roomId, gameState });
+      
+    } catch (error) {
+      console.error('💥 Create AI-vs-AI game error:', error);
+      socket.emit('error', 'Không thể tạo trận AI đấu AI. Vui lòng thử lại.');
+    }
+  });
+
+  // NEW: Surrender request handler
+  socket.on('surrenderRequest', (roomId: string) => {
+    console.log('🏳️ Surrender request from:', socket.id, 'in room:', roomId);
+    
+    const room = rooms.get(roomId);
+    if (!room) {
+      socket.emit('error', 'Phòng không tồn tại');
+      return;
+    }
+    
+    const surrenderingPlayer = room.gameState.players.find(p => p.id === socket.id);
+    if (!surrenderingPlayer) {
+      socket.emit('error', 'Bạn không ở trong phòng này');
+      return;
+    }
+    
+    if (room.gameState.gameStatus !== 'playing') {
+      socket.emit('error', 'Game chưa bắt đầu hoặc đã kết thúc');
+      return;
+    }
+    
+    // Check if surrendering player has enough coins
+    if (surrenderingPlayer.coins < 10) {
+      socket.emit('error', 'Bạn cần ít nhất 10 xu để đầu hàng');
+      return;
+    }
+    
+    // Cannot surrender in AI game
+    if (room.isAIGame) {
+      socket.emit('error', 'Không thể đầu hàng khi chơi với AI');
+      return;
+    }
+    
+    const opponentPlayer = room.gameState.players.find(p => p.id !== socket.id && p.id !== 'AI');
+    if (!opponentPlayer || !opponentPlayer.isConnected) {
+      socket.emit('error', 'Không tìm thấy đối thủ để đầu hàng');
+      return;
+    }
+    
+    updateRoomActivity(roomId);
+    
+    // Stop timer
+    if (roomTimers.has(roomId)) {
+      clearTimeout(roomTimers.get(roomId)!);
+      roomTimers.delete(roomId);
+    }
+    
+    // Handle surrender
+    handleSurrender(room, socket.id);
+    
+    // Broadcast game update
+    io.to(roomId).emit('gameStateUpdate', room.gameState);
+    handleGameFinished(roomId, 'surrender');
+    
+    console.log(`✅ Surrender processed: ${surrenderingPlayer.displayName} surrendered to ${opponentPlayer.displayName}`);
+  });
+
+  // Rematch after a two-player game; the other player has to accept
+  socket.on('requestRematch', (roomId: string) => {
+    const room = rooms.get(roomId);
+    if (!room || room.gameState.gameStatus !== 'finished' || room.isAIGame || room.isAIvsAI) {
+      socket.emit('error', 'Chỉ có thể tái đấu sau khi ván đấu kết thúc');
+      return;
+    }
+
+    const player = room.gameState.players.find(p => p.id === socket.id);
+    if (!player) {
+      socket.emit('error', 'Bạn không ở trong phòng này');
+      return;
+    }
+
+    if (room.gameState.players.length !== 2 || !room.gameState.players.every(p => p.isConnected)) {
+      socket.emit('error', 'Đối thủ không còn trong phòng');
+      return;
+    }
+
+    if (room.match && !room.match.finished) {
+      socket.emit('error', 'Ván tiếp theo của trận sẽ tự bắt đầu');
+      return;
+    }
+
+    if (room.gameState.rematchRequest) {
+      socket.emit('error', 'Đã có yêu cầu tái đấu');
+      return;
+    }
+
+    updateRoomActivity(roomId);
+    room.gameState.rematchRequest = { playerId: socket.id, playerName: player.displayName };
+    io.to(roomId).emit('gameStateUpdate', room.gameState);
+  });
+
+  socket.on('respondRematch', (data: { roomId: string; accept: boolean }) => {
+    const room = rooms.get(data.roomId);
+    const request = room?.gameState.rematchRequest;
+    if (!room || room.gameState.gameStatus !== 'finished' || !request) {
+      socket.emit('error', 'Không có yêu cầu tái đấu');
+      return;
+    }
+
+    const player = room.gameState.players.find(p => p.id === socket.id);
+    if (!player || player.id === request.playerId) {
+      socket.emit('error', 'Chỉ đối thủ mới có thể trả lời yêu cầu tái đấu');
+      return;
+    }
+
+    updateRoomActivity(data.roomId);
+
+    if (!data.accept) {
+      room.gameState.rematchRequest = undefined;
+      io.to(data.roomId).emit('rematchDeclined', { playerName: player.displayName });
+      io.to(data.roomId).emit('gameStateUpdate', room.gameState);
+      return;
+    }
+
+    // A rematch after a finished match is a new match of the same length
+    room.match = room.match && createMatch(room.match.bestOf);
+    startRematch(data.roomId, room);
+  });
+
+  // Agreed draw between two human players, settled like a drawn game
+  socket.on('offerDraw', (roomId: string) => {
+    const room = rooms.get(roomId);
+    if (!room || room.gameState.gameStatus !== 'playing') {
+      socket.emit('error', 'Game không khả dụng');
+      return;
+    }
+
+    const player = room.gameState.players.find(p => p.id === socket.id);
+    if (!player) {
+      socket.emit('error', 'Bạn không ở trong phòng này');
+      return;
+    }
+
+    if (room.isAIGame || room.isAIvsAI) {
+      socket.emit('error', 'Không thể cầu hòa khi chơi với AI');
+      return;
+    }
+
+    if (room.gameState.drawOffer) {
+      socket.emit('error', 'Đã có lời cầu hòa');
+      return;
+    }
+
+    updateRoomActivity(roomId);
+    room.gameState.drawOffer = { playerId: socket.id, playerName: player.displayName };
+    io.to(roomId).emit('gameStateUpdate', room.gameState);
+  });
+
+  socket.on('respondDraw', (data: { roomId: string; accept: boolean }) => {
+    const room = rooms.get(data.roomId);
+    const offer = room?.gameState.drawOffer;
+    if (!room || room.gameState.gameStatus !== 'playing' || !offer) {
+      socket.emit('error', 'Không có lời cầu hòa');
+      return;
+    }
+
+    const player = room.gameState.players.find(p => p.id === socket.id);
+    if (!player || player.id === offer.playerId) {
+      socket.emit('error', 'Chỉ đối thủ mới có thể trả lời lời cầu hòa');
+      return;
+    }
+
+    updateRoomActivity(data.roomId);
+    room.gameState.drawOffer = undefined;
+
+    if (!data.accept) {
+      io.to(data.roomId).emit('drawDeclined', { playerName: player.displayName });
+      io.to(data.roomId).emit('gameStateUpdate', room.gameState);
+      return;
+    }
+
+    if (roomTimers.has(data.roomId)) {
+      clearTimeout(roomTimers.get(data.roomId)!);
+      roomTimers.delete(data.roomId);
+    }
+    stopTurnClock(room, false);
+
+    room.gameState.gameStatus = 'finished';
+    room.gameState.winnerId = 'draw';
+    room.gameState.pause = undefined;
+    awardCoinsToPlayers(room, 'draw');
+
+    io.to(data.roomId).emit('gameStateUpdate', room.gameState);
+    handleGameFinished(data.roomId, 'agreement');
+  });
+
+  // Takeback: free (up to undosLeft) against the AI, needs the opponent's approval otherwise
+  socket.on('requestUndo', (roomId: string) => {
+    const room = rooms.get(roomId);
+    if (!room || room.gameState.gameStatus !== 'playing' || room.isAIvsAI) {
+      socket.emit('error', 'Game không khả dụng');
+      return;
+    }
+
+    const player = room.gameState.players.find(p => p.id === socket.id);
+    if (!player) {
+      socket.emit('error', 'Bạn không ở trong phòng này');
+      return;
+    }
+
+    if (isPaused(room.gameState)) {
+      socket.emit('error', 'Ván đấu đang tạm dừng');
+      return;
+    }
+
+    const playerNum = player.color === 'black' ? 1 : 2;
+    if (findUndoSnapshot(room, playerNum) === -1) {
+      socket.emit('error', 'Bạn chưa có nước nào để đi lại');
+      return;
+    }
+
+    updateRoomActivity(roomId);
+
+    if (room.isAIGame) {
+      if (!room.gameState.undosLeft) {
+        socket.emit('error', 'Bạn đã hết lượt đi lại trong ván này');
+        return;
+      }
+      room.gameState.undosLeft--;
+      applyUndo(roomId, room, playerNum);
+      return;
+    }
+
+    if (room.gameState.undoRequest) {
+      socket.emit('error', 'Đã có yêu cầu đi lại');
+      return;
+    }
+
+    room.gameState.undoRequest = { playerId: socket.id, playerName: player.displayName };
+    io.to(roomId).emit('gameStateUpdate', room.gameState);
+  });
+
+  socket.on('respondUndo', (data: { roomId: string; accept: boolean }) => {
+    const room = rooms.get(data.roomId);
+    const request = room?.gameState.undoRequest;
+    if (!room || room.gameState.gameStatus !== 'playing' || !request) {
+      socket.emit('error', 'Không có yêu cầu đi lại');
+      return;
+    }
+
+    const player = room.gameState.players.find(p => p.id === socket.id);
+    if (!player || player.id === request.playerId) {
+      socket.emit('error', 'Chỉ đối thủ mới có thể trả lời yêu cầu đi lại');
+      return;
+    }
+
+    updateRoomActivity(data.roomId);
+
+    if (!data.accept || isPaused(room.gameState)) {
+      room.gameState.undoRequest = undefined;
+      io.to(data.roomId).emit('undoDeclined', { playerName: player.displayName });
+      io.to(data.roomId).emit('gameStateUpdate', room.gameState);
+      return;
+    }
+
+    // The requester is whoever isn't answering
+    applyUndo(data.roomId, room, player.color === 'black' ? 2 : 1);
+  });
+
+  // Pause by mutual agreement, only between two human players
+  socket.on('requestPause', (roomId: string) => {
     const room = rooms.get(roomId);
-    if (!room) {
-      socket.emit('error', 'Phòng không tồn tại');
+    if (!room || room.gameState.gameStatus !== 'playing') {
+      socket.emit('error', 'Game không khả dụng');
       return;
     }
-    
-    const surrenderingPlayer = room.gameState.players.find(p => p.id === socket.id);
-    if (!surrenderingPlayer) {
+
+    const player = room.gameState.players.find(p => p.id === socket.id);
+    if (!player) {
       socket.emit('error', 'Bạn không ở trong phòng này');
       return;
     }
-    
-    if (room.gameState.gameStatus !== 'playing') {
-      socket.emit('error', 'Game chưa bắt đầu hoặc đã kết thúc');
+
+    if (room.isAIGame || room.isAIvsAI) {
+      socket.emit('error', 'Không thể tạm dừng khi chơi với AI');
       return;
     }
-    
-    // Check if surrendering player has enough coins
-    if (surrenderingPlayer.coins < 10) {
-      socket.emit('error', 'Bạn cần ít nhất 10 xu để đầu hàng');
+
+    if (room.gameState.pause) {
+      socket.emit('error', 'Đã có yêu cầu tạm dừng');
       return;
     }
-    
-    // Cannot surrender in AI game
-    if (room.isAIGame) {
-      socket.emit('error', 'Không thể đầu hàng khi chơi với AI');
+
+    updateRoomActivity(roomId);
+    room.gameState.pause = { status: 'requested', requestedBy: socket.id, requestedByName: player.displayName };
+    io.to(roomId).emit('gameStateUpdate', room.gameState);
+  });
+
+  socket.on('respondPause', (data: { roomId: string; accept: boolean }) => {
+    const room = rooms.get(data.roomId);
+    const pause = room?.gameState.pause;
+    if (!room || room.gameState.gameStatus !== 'playing' || pause?.status !== 'requested') {
+      socket.emit('error', 'Không có yêu cầu tạm dừng');
       return;
     }
-    
-    const opponentPlayer = room.gameState.players.find(p => p.id !== socket.id && p.id !== 'AI');
-    if (!opponentPlayer || !opponentPlayer.isConnected) {
-      socket.emit('error', 'Không tìm thấy đối thủ để đầu hàng');
+
+    const player = room.gameState.players.find(p => p.id === socket.id);
+    if (!player || player.id === pause.requestedBy) {
+      socket.emit('error', 'Chỉ đối thủ mới có thể trả lời yêu cầu tạm dừng');
       return;
     }
-    
-    updateRoomActivity(roomId);
-    
-    // Stop timer
-    if (roomTimers.has(roomId)) {
-      clearInterval(roomTimers.get(roomId)!);
-      roomTimers.delete(roomId);
+
+    updateRoomActivity(data.roomId);
+
+    if (data.accept) {
+      // Freeze the running turn; timeLeft and the clocks keep what was left
+      if (roomTimers.has(data.roomId)) {
+        clearTimeout(roomTimers.get(data.roomId)!);
+        roomTimers.delete(data.roomId);
+      }
+      stopTurnClock(room, false);
+      pause.status = 'paused';
+    } else {
+      room.gameState.pause = undefined;
+      io.to(data.roomId).emit('pauseDeclined', { playerName: player.displayName });
     }
-    
-    // Handle surrender
-    handleSurrender(room, socket.id);
-    
-    // Broadcast game update
+
+    io.to(data.roomId).emit('gameStateUpdate', room.gameState);
+  });
+
+  // Either player can resume; the clock restarts after a short countdown
+  socket.on('resumeGame', (roomId: string) => {
+    const room = rooms.get(roomId);
+    const pause = room?.gameState.pause;
+    if (!room || room.gameState.gameStatus !== 'playing' || pause?.status !== 'paused') {
+      socket.emit('error', 'Ván đấu không tạm dừng');
+      return;
+    }
+
+    if (!room.gameState.players.some(p => p.id === socket.id)) {
+      socket.emit('error', 'Bạn không ở trong phòng này');
+      return;
+    }
+
+    updateRoomActivity(roomId);
+    pause.status = 'resuming';
+    pause.resumeAt = Date.now() + RESUME_COUNTDOWN_MS;
     io.to(roomId).emit('gameStateUpdate', room.gameState);
-    
-    console.log(`✅ Surrender processed: ${surrenderingPlayer.displayName} surrendered to ${opponentPlayer.displayName}`);
+
+    // Kept in roomTimers so ending or deleting the room cancels it like a turn timer
+    roomTimers.set(roomId, setTimeout(() => {
+      roomTimers.delete(roomId);
+      if (rooms.get(roomId) !== room || room.gameState.pause !== pause || room.gameState.gameStatus !== 'playing') return;
+
+      room.gameState.pause = undefined;
+      io.to(roomId).emit('gameStateUpdate', room.gameState);
+      startTimer(roomId, true);
+    }, RESUME_COUNTDOWN_MS));
   });
 
   // Other socket handlers (unchanged)
@@ -1242,6 +2234,11 @@ io.on('connection', (socket) => {
       return;
     }
 
+    if (isPaused(room.gameState)) {
+      socket.emit('error', 'Ván đấu đang tạm dừng');
+      return;
+    }
+
     const validMove = room.gameState.validMoves.some(([r, c]) => r === data.row && c === data.col);
     if (!validMove) {
       socket.emit('error', 'Nước đi không hợp lệ');
@@ -1250,49 +2247,87 @@ io.on('connection', (socket) => {
     
     updateRoomActivity(data.roomId);
     
-    room.gameState.board = OthelloGame.makeMove(room.gameState.board, data.row, data.col, room.gameState.currentPlayer);
-    room.gameState.scores = OthelloGame.calculateScores(room.gameState.board);
-    room.gameState.lastMove = { row: data.row, col: data.col, playerId: currentPlayerObj.id };
-    
-    let nextPlayerNum = room.gameState.currentPlayer === 1 ? 2 : 1;
-    room.gameState.currentPlayer = nextPlayerNum as 1 | 2;
-    room.gameState.validMoves = OthelloGame.getValidMoves(room.gameState.board, room.gameState.currentPlayer);
-    
-    if (room.gameState.validMoves.length === 0) {
-      let otherPlayerNum = room.gameState.currentPlayer === 1 ? 2 : 1;
-      let otherPlayerMoves = OthelloGame.getValidMoves(room.gameState.board, otherPlayerNum);
+    playMove(data.roomId, room, data.row, data.col, currentPlayerObj.id);
+  });
 
-      if (otherPlayerMoves.length === 0) {
-        room.gameState.gameStatus = 'finished';
-        clearInterval(roomTimers.get(data.roomId)!);
-        roomTimers.delete(data.roomId);
-        
-        const scores = OthelloGame.calculateScores(room.gameState.board);
-        if (scores[1] > scores[2]) {
-          room.gameState.winnerId = room.gameState.players.find(p => p.color === 'black')?.id;
-        } else if (scores[2] > scores[1]) {
-          room.gameState.winnerId = room.gameState.players.find(p => p.color === 'white')?.id;
-        } else {
-          room.gameState.winnerId = 'draw';
+  // Hint: the engine's suggested move for the player to move, sent only to that player
+  socket.on('requestHint', async (roomId: string) => {
+    const room = rooms.get(roomId);
+    if (!room || room.gameState.gameStatus !== 'playing') {
+      socket.emit('error', 'Game không khả dụng');
+      return;
+    }
+
+    const hints = room.gameState.hints;
+    if (!hints) {
+      socket.emit('error', 'Không thể dùng gợi ý trong trận xếp hạng');
+      return;
+    }
+
+    const currentColor = room.gameState.currentPlayer === 1 ? 'black' : 'white';
+    const player = room.gameState.players.find(p => p.id === socket.id);
+    if (!player || player.color !== currentColor) {
+      socket.emit('error', 'Không phải lượt của bạn');
+      return;
+    }
+
+    const used = hints.used[player.nickname] || 0;
+    if (used >= hints.limit) {
+      socket.emit('error', `Bạn đã dùng hết ${hints.limit} lượt gợi ý trong ván này`);
+      return;
+    }
+
+    if (hints.coinCost > 0 && player.coins < hints.coinCost) {
+      socket.emit('error', `Bạn cần ${hints.coinCost} xu để xem gợi ý`);
+      return;
+    }
+
+    if (room.hintInProgress) {
+      socket.emit('error', 'Đang tìm gợi ý, vui lòng chờ');
+      return;
+    }
+
+    updateRoomActivity(roomId);
+    room.hintInProgress = true;
+    const board = room.gameState.board;
+    const currentPlayer = room.gameState.currentPlayer;
+
+    try {
+      const move = await aiWorkerPool.requestMove(roomId, {
+        board,
+        player: currentPlayer,
+        difficulty: AIDifficulty.HARD,
+        timeBudgetMs: HINT_TIME_MS,
+        useOpeningBook: false
+      });
+
+      // The position may have changed while searching; the hint is not charged then
+      if (!move ||
+          rooms.get(roomId) !== room ||
+          room.gameState.hints !== hints ||
+          room.gameState.board !== board ||
+          room.gameState.currentPlayer !== currentPlayer) {
+        socket.emit('error', 'Gợi ý không còn phù hợp với bàn cờ');
+        return;
+      }
+
+      if (hints.coinCost > 0) {
+        const playerData = database.spendCoins(player.nickname, hints.coinCost);
+        if (!playerData) {
+          socket.emit('error', `Bạn cần ${hints.coinCost} xu để xem gợi ý`);
+          return;
         }
-        
-        awardCoinsToPlayers(room);
-      } else {
-        room.gameState.currentPlayer = otherPlayerNum as 1 | 2;
-        room.gameState.validMoves = otherPlayerMoves;
+        player.coins = playerData.coins;
       }
-    }
-    
-    io.to(data.roomId).emit('gameStateUpdate', room.gameState);
-    
-    const aiPlayer = room.gameState.players.find(p => p.id === 'AI');
-    
-    if (aiPlayer && room.gameState.gameStatus === 'playing' && room.gameState.currentPlayer === (aiPlayer.color === 'black' ? 1 : 2)) {
-      setTimeout(() => {
-        makeAIMove(data.roomId);
-      }, 1000);
-    } else if (room.gameState.gameStatus === 'playing') {
-      startTimer(data.roomId);
+      hints.used[player.nickname] = used + 1;
+
+      io.to(roomId).emit('gameStateUpdate', room.gameState);
+      socket.emit('hintResult', { row: move[0], col: move[1] });
+    } catch (error) {
+      console.error('💥 Hint error:', error);
+      socket.emit('error', 'Không thể lấy gợi ý. Vui lòng thử lại.');
+    } finally {
+      room.hintInProgress = false;
     }
   });
 
@@ -1306,35 +2341,55 @@ io.on('connection', (socket) => {
       socket.emit('error', 'Phòng không tồn tại');
       return;
     }
+
+    // Players restart their own game; an AI-vs-AI room is restarted by the people watching it
+    const isMember = room.isAIvsAI
+      ? !!room.spectators?.some(s => s.id === socket.id)
+      : room.gameState.players.some(p => p.id === socket.id);
+    if (!isMember) {
+      socket.emit('error', 'Bạn không ở trong phòng này');
+      return;
+    }
+
+    // Restarting would throw away the match's counted games before its coins are settled
+    if (room.match && !room.match.finished) {
+      socket.emit('error', 'Trận đấu chưa kết thúc, không thể bắt đầu ván mới');
+      return;
+    }
     
     updateRoomActivity(roomId);
     
     if (roomTimers.has(roomId)) {
-      clearInterval(roomTimers.get(roomId)!);
+      clearTimeout(roomTimers.get(roomId)!);
       roomTimers.delete(roomId);
     }
 
-    const oldPlayers = room.gameState.players.map(p => {
-      if (p.isAuthenticated && p.id !== 'AI') {
-        const playerData = database.getPlayer(p.displayName);
-        if (playerData) {
-          return { ...p, coins: playerData.coins };
-        }
-      }
-      return { ...p };
-    });
+    // Abandon the AI's search for the previous game
+    aiWorkerPool.cancel(roomId);
+
+    const oldPlayers = refreshedPlayers(room);
     
-    room.gameState = createInitialGameState();
+    room.gameState = createInitialGameState(room.timeControl, room.timeoutPolicy);
+    room.undoStack = [];
+    // A new game after a finished match starts the next match
+    room.match = room.match && createMatch(room.match.bestOf);
+    attachRoomState(room);
     
-    if (isAI && difficulty) {
+    if (room.isAIvsAI) {
+      room.gameState.players = oldPlayers.map(p => createAIPlayer(p.color!, p.aiDifficulty || AIDifficulty.MEDIUM));
+      room.gameState.gameStatus = 'playing';
+      
+      scheduleNextTurn(roomId);
+    } else if (isAI && difficulty) {
       const humanPlayerData = oldPlayers.find(p => p.id !== 'AI');
+      const humanColor = resolveHumanColor(room.humanColorChoice);
       const aiPlayer: Player = {
         id: 'AI',
         nickname: 'ai',
         displayName: `AI (${difficulty.toUpperCase()})`,
         emoji: '🤖',
         isReady: true,
-        color: 'white',
+        color: humanColor === 'black' ? 'white' : 'black',
         pieceEmoji: humanPlayerData?.pieceEmoji,
         coins: 0,
         isAuthenticated: false,
@@ -1343,17 +2398,17 @@ io.on('connection', (socket) => {
       
       if (humanPlayerData) {
         humanPlayerData.isReady = true;
-        humanPlayerData.color = 'black';
-        room.gameState.players = [humanPlayerData, aiPlayer];
-      } else {
-        room.gameState.players = [aiPlayer];
+        humanPlayerData.color = humanColor;
       }
+      room.gameState.players = seatAIGamePlayers(humanPlayerData, aiPlayer);
       
       room.gameState.gameStatus = 'playing';
+      room.gameState.hints = createHintState();
+      room.gameState.undosLeft = UNDOS_PER_AI_GAME;
       room.isAIGame = true;
       room.aiDifficulty = difficulty;
       
-      startTimer(roomId);
+      scheduleNextTurn(roomId);
     } else {
       room.gameState.players = oldPlayers.map((p, index) => ({ 
         ...p, 
@@ -1378,8 +2433,9 @@ io.on('connection', (socket) => {
       return;
     }
     
-    const player = room.gameState.players.find(p => p.id === socket.id);
-    if (!player) {
+    // Spectators can chat too
+    const sender = room.gameState.players.find(p => p.id === socket.id) || room.spectators?.find(s => s.id === socket.id);
+    if (!sender) {
       socket.emit('error', 'Bạn không ở trong phòng này');
       return;
     }
@@ -1389,7 +2445,7 @@ io.on('connection', (socket) => {
     const chatMessage: ChatMessage = {
       id: uuidv4(),
       playerId: socket.id,
-      playerName: player.displayName,
+      playerName: sender.displayName,
       message: data.message,
       timestamp: Date.now()
     };
@@ -1403,6 +2459,34 @@ io.on('connection', (socket) => {
     io.to(data.roomId).emit('newMessage', chatMessage);
   });
 
+  // Room creator turns watching on or off; turning it off sends the current spectators away
+  socket.on('setAllowSpectators', (data: { roomId: string; allow: boolean }) => {
+    const room = rooms.get(data.roomId);
+    if (!room) {
+      socket.emit('error', 'Phòng không tồn tại');
+      return;
+    }
+
+    const player = room.gameState.players.find(p => p.id === socket.id);
+    if (!player || player.displayName.toLowerCase() !== room.creatorNickname) {
+      socket.emit('error', 'Chỉ chủ phòng mới có thể đổi cài đặt này');
+      return;
+    }
+
+    room.allowSpectators = !!data.allow;
+    if (!room.allowSpectators) {
+      for (const spectator of room.spectators || []) {
+        io.to(spectator.id).emit('spectatingEnded', 'Chủ phòng đã tắt chế độ xem');
+        io.sockets.sockets.get(spectator.id)?.leave(data.roomId);
+      }
+      room.spectators = [];
+    }
+
+    attachRoomState(room);
+    updateRoomActivity(data.roomId);
+    io.to(data.roomId).emit('gameStateUpdate', room.gameState);
+  });
+
   // Voice chat events (unchanged)
   socket.on('voice-join-room', (roomId: string) => {
     const playerRoom = getPlayerRoom(socket.id);
@@ -1513,6 +2597,24 @@ io.on('connection', (socket) => {
     }
     
     for (const [roomId, room] of rooms.entries()) {
+      // An AI-vs-AI room closes once its last watcher leaves
+      if (room.spectators?.some(s => s.id === socket.id)) {
+        room.spectators = room.spectators.filter(s => s.id !== socket.id);
+        attachRoomState(room);
+        if (room.isAIvsAI && room.spectators.length === 0) {
+          console.log(`🗑️ Deleting AI-vs-AI room with no spectators: ${roomId}`);
+          if (roomTimers.has(roomId)) {
+            clearTimeout(roomTimers.get(roomId)!);
+            roomTimers.delete(roomId);
+          }
+          aiWorkerPool.cancel(roomId);
+          rooms.delete(roomId);
+        } else {
+          io.to(roomId).emit('gameStateUpdate', room.gameState);
+        }
+        continue;
+      }
+      
       const playerIndex = room.gameState.players.findIndex(p => p.id === socket.id);
       if (playerIndex !== -1) {
         const player = room.gameState.players[playerIndex];
@@ -1532,6 +2634,19 @@ io.on('connection', (socket) => {
             playerRoomMapping.delete(player.displayName.toLowerCase());
           }
         }
+
+        // An AI game is over once its human leaves; the AI must not keep playing an empty seat
+        if (room.isAIGame && !room.isAIvsAI && !room.gameState.players.some(p => !isAIPlayer(p))) {
+          console.log(`🗑️ Deleting AI game its player left: ${roomId}`);
+          if (roomTimers.has(roomId)) {
+            clearTimeout(roomTimers.get(roomId)!);
+            roomTimers.delete(roomId);
+          }
+          aiWorkerPool.cancel(roomId);
+          io.to(roomId).emit('spectatingEnded', 'Người chơi đã rời phòng');
+          rooms.delete(roomId);
+          continue;
+        }
         
         // Check if room should be deleted (only if no players left or all disconnected for too long)
         const connectedPlayers = room.gameState.players.filter(p => p.isConnected);
@@ -1543,7 +2658,7 @@ io.on('connection', (socket) => {
             if (currentRoom && currentRoom.gameState.players.filter(p => p.isConnected).length === 0) {
               console.log(`🗑️ Deleting room with no connected players: ${roomId}`);
               if (roomTimers.has(roomId)) {
-                clearInterval(roomTimers.get(roomId)!);
+                clearTimeout(roomTimers.get(roomId)!);
                 roomTimers.delete(roomId);
               }
               // Clean up player mappings
@@ -1552,6 +2667,7 @@ io.on('connection', (socket) => {
                   playerRoomMapping.delete(p.displayName.toLowerCase());
                 }
               });
+              aiWorkerPool.cancel(roomId);
               rooms.delete(roomId);
             }
           }, 5 * 60 * 1000); // 5 minutes grace period
@@ -1560,17 +2676,23 @@ io.on('connection', (socket) => {
           const disconnectedPlayerColor = player.color;
           const currentPlayerColor = room.gameState.currentPlayer === 1 ? 'black' : 'white';
 
-          if (disconnectedPlayerColor === currentPlayerColor && room.gameState.gameStatus === 'playing') {
-            // Skip to other player's turn
-            room.gameState.currentPlayer = room.gameState.currentPlayer === 1 ? 2 : 1;
+          // A paused game stays paused for the player to come back to
+          const passesTurn = disconnectedPlayerColor === currentPlayerColor && room.gameState.gameStatus === 'playing' && !isPaused(room.gameState);
+          let endedGame = false;
+          if (passesTurn) {
+            // Skip to other player's turn; the running deadline was the disconnected player's
+            if (roomTimers.has(roomId)) {
+              clearTimeout(roomTimers.get(roomId)!);
+              roomTimers.delete(roomId);
+            }
+            stopTurnClock(room, false);
+            const disconnectedPlayerNum = room.gameState.currentPlayer;
+            recordPass(roomId, disconnectedPlayerNum, 'disconnect');
+            room.gameState.currentPlayer = disconnectedPlayerNum === 1 ? 2 : 1;
             room.gameState.validMoves = OthelloGame.getValidMoves(room.gameState.board, room.gameState.currentPlayer);
             
             if (room.gameState.validMoves.length === 0 && OthelloGame.isGameOver(room.gameState.board)) {
               room.gameState.gameStatus = 'finished';
-              if (roomTimers.has(roomId)) {
-                clearInterval(roomTimers.get(roomId)!);
-                roomTimers.delete(roomId);
-              }
               const scores = OthelloGame.calculateScores(room.gameState.board);
               if (scores[1] > scores[2]) {
                 room.gameState.winnerId = room.gameState.players.find(p => p.color === 'black')?.id;
@@ -1581,10 +2703,23 @@ io.on('connection', (socket) => {
               }
               
               awardCoinsToPlayers(room);
+              endedGame = true;
+            } else if (room.gameState.validMoves.length === 0) {
+              // The opponent has no move either, so the turn comes straight back
+              recordPass(roomId, room.gameState.currentPlayer, 'no-moves');
+              room.gameState.currentPlayer = disconnectedPlayerNum;
+              room.gameState.validMoves = OthelloGame.getValidMoves(room.gameState.board, disconnectedPlayerNum);
             }
           }
           
           io.to(roomId).emit('gameStateUpdate', room.gameState);
+          // A game that had already ended was archived and analyzed then
+          if (endedGame) {
+            handleGameFinished(roomId, 'disconnect');
+          } else if (passesTurn) {
+            // A fresh deadline for whoever moves now
+            scheduleNextTurn(roomId);
+          }
         }
       }
     }
@@ -1676,11 +2811,75 @@ app.get('/api/room/:roomId', (req: Request, res: Response) => {
   }
 });
 
+// Finished game with its full move list
+app.get('/api/games/:id', (req: Request, res: Response) => {
+  try {
+    const game = gameArchive.getGame(req.params.id);
+
+    if (game) {
+      res.json({
+        success: true,
+        game
+      });
+    } else {
+      res.status(404).json({
+        success: false,
+        message: 'Game not found'
+      });
+    }
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// Transcript of a finished game as plain text, for other Othello tools
+app.get('/api/games/:id/transcript', (req: Request, res: Response) => {
+  try {
+    const game = gameArchive.getGame(req.params.id);
+
+    if (game) {
+      res.type('text/plain').send(formatTranscript(transcriptHeaders(game.players, game.finishedAt, game.scores), game.moves));
+    } else {
+      res.status(404).json({
+        success: false,
+        message: 'Game not found'
+      });
+    }
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
+// A player's finished games, newest first, without move lists
+app.get('/api/player/:nickname/games', (req: Request, res: Response) => {
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+
+    res.json({
+      success: true,
+      ...gameArchive.getPlayerGames(req.params.nickname, page, limit)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+});
+
 const PORT = process.env.PORT || 3001;
 
 server.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`📊 Database loaded with ${database.getPlayerCount()} players`);
+  console.log(`🗄️ Game archive loaded with ${gameArchive.getGameCount()} games`);
   console.log(`🌐 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 CORS enabled for: ${process.env.NODE_ENV === 'production' ? 'https://huong-othello.vercel.app' : 'http://localhost:3000'}`);
 });
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useGame } from '../contexts/GameContext';
+import { MoveAnnotation, MoveQuality, formatSquare } from '../types';
+
+const QUALITY_LABELS: { [key in MoveQuality]: { label: string; className: string } } = {
+  best: { label: '✅ Tốt', className: 'text-green-400' },
+  inaccuracy: { label: '⚠️ Thiếu chính xác', className: 'text-yellow-300' },
+  mistake: { label: '❌ Sai lầm', className: 'text-orange-400' },
+  blunder: { label: '💥 Sai lầm nghiêm trọng', className: 'text-red-400' }
+};
+
+const AnalysisPanel: React.FC = () => {
+  const { gameState } = useGame();
+  const [onlyErrors, setOnlyErrors] = useState(false);
+
+  if (!gameState || gameState.gameStatus !== 'finished' || !gameState.moveHistory?.length) return null;
+
+  const analysis = gameState.analysis;
+
+  // Số nước mỗi loại cho từng bên
+  const summarize = (player: 1 | 2) => {
+    const moves = (analysis || []).filter(move => move.player === player);
+    const count = (quality: MoveQuality) => moves.filter(move => move.quality === quality).length;
+    return {
+      accuracy: moves.length ? Math.round(count('best') / moves.length * 100) : 0,
+      inaccuracy: count('inaccuracy'),
+      mistake: count('mistake'),
+      blunder: count('blunder')
+    };
+  };
+
+  const describeLoss = (move: MoveAnnotation) => {
+    if (move.quality === 'best') return '';
+    if (move.loss > 0) return ` (-${move.loss}%)`;
+    return move.discLoss ? ` (-${move.discLoss} quân)` : '';
+  };
+
+  const visibleMoves = (analysis || []).filter(move => !onlyErrors || move.quality !== 'best');
+
+  return (
+    <motion.div
+      className="bg-white/10 backdrop-blur-sm rounded-xl p-3 sm:p-4 md:p-6 w-full"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <h3 className="text-base sm:text-lg font-semibold text-white mb-3">🔍 Phân tích ván đấu</h3>
+
+      {!analysis ? (
+        <div className="text-gray-300 text-sm">⏳ Đang phân tích từng nước đi...</div>
+      ) : (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-xs sm:text-sm">
+            {([1, 2] as const).map(player => {
+              const summary = summarize(player);
+              return (
+                <div key={player} className="bg-black/20 rounded-lg p-2 sm:p-3 text-gray-200 space-y-1">
+                  <div className="font-semibold text-white">{player === 1 ? '⚫ Đen' : '⚪ Trắng'}</div>
+                  <div>🎯 Chính xác: {summary.accuracy}%</div>
+                  <div className="text-yellow-300">⚠️ {summary.inaccuracy} · <span className="text-orange-400">❌ {summary.mistake}</span> · <span className="text-red-400">💥 {summary.blunder}</span></div>
+                </div>
+              );
+            })}
+          </div>
+
+          <label className="flex items-center gap-2 text-gray-300 text-xs sm:text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={onlyErrors}
+              onChange={(e) => setOnlyErrors(e.target.checked)}
+            />
+            Chỉ hiện nước đi lỗi
+          </label>
+
+          <div className="max-h-64 overflow-y-auto space-y-1 pr-1">
+            {visibleMoves.map(move => {
+              const quality = QUALITY_LABELS[move.quality];
+              return (
+                <div key={move.ply} className="flex items-center justify-between gap-2 bg-black/20 rounded px-2 py-1 text-xs sm:text-sm">
+                  <span className="text-gray-200 font-mono">
+                    {move.ply + 1}. {move.player === 1 ? '⚫' : '⚪'} {formatSquare(move.row, move.col)}
+                  </span>
+                  <span className={`${quality.className} text-right`}>
+                    {quality.label}{describeLoss(move)}
+                    {move.quality !== 'best' && (
+                      <span className="text-gray-400"> · nên đi {formatSquare(move.bestRow, move.bestCol)}</span>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+            {visibleMoves.length === 0 && (
+              <div className="text-gray-400 text-sm text-center">Không có nước đi lỗi 🎉</div>
+            )}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default AnalysisPanel;
@@ -2,22 +2,45 @@ import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useGame } from '../contexts/GameContext';
 import { useSocket } from '../contexts/SocketContext';
+import { GameState, RESUME_COUNTDOWN_SECONDS, formatClock, isGamePaused } from '../types';
 
-const Board: React.FC = () => {
-  const { gameState, makeMove, currentTheme } = useGame();
+interface BoardProps {
+  gameState?: GameState;  // vẽ thế cờ này thay cho ván đang chơi (xem lại)
+  readOnly?: boolean;     // không cho đi quân, không hiện gợi ý
+  highlight?: {
+    move?: [number, number];
+    flipped: [number, number][];
+  };
+}
+
+const Board: React.FC<BoardProps> = ({ gameState: gameStateOverride, readOnly = false, highlight }) => {
+  const { gameState: liveGameState, makeMove, currentTheme, isSpectating, hintMove } = useGame();
+  const gameState = gameStateOverride || liveGameState;
   const { socket } = useSocket();
   const [showCoinsEarned, setShowCoinsEarned] = useState(false);
   const [coinsEarnedInfo, setCoinsEarnedInfo] = useState<{ amount: number; isCurrentPlayer: boolean } | null>(null);
+  const [resumeCountdown, setResumeCountdown] = useState(0);
+
+  // Đếm ngược tại chỗ khi một bên bấm tiếp tục; server chạy lại đồng hồ khi hết
+  const resumeAt = gameState?.pause?.status === 'resuming' ? gameState.pause.resumeAt : undefined;
+  useEffect(() => {
+    if (!resumeAt) return;
+
+    setResumeCountdown(RESUME_COUNTDOWN_SECONDS);
+    const timer = setInterval(() => setResumeCountdown(seconds => Math.max(1, seconds - 1)), 1000);
+    return () => clearInterval(timer);
+  }, [resumeAt]);
 
   if (!gameState) return null;
 
   const currentPlayer = gameState.players.find(p => p.id === socket?.id);
   const isMyTurn = currentPlayer && gameState.players[gameState.currentPlayer - 1]?.id === socket?.id;
-  const canPlay = gameState.gameStatus === 'playing' && isMyTurn;
+  const isPaused = isGamePaused(gameState);
+  const canPlay = !readOnly && gameState.gameStatus === 'playing' && isMyTurn && !isPaused;
 
   // Show coins earned animation when game finishes and player won
   useEffect(() => {
-    if (gameState.gameStatus === 'finished' && gameState.coinsAwarded && gameState.coinsAwarded.playerId === socket?.id) {
+    if (!readOnly && gameState.gameStatus === 'finished' && gameState.coinsAwarded && gameState.coinsAwarded.playerId === socket?.id) {
       setCoinsEarnedInfo({
         amount: gameState.coinsAwarded.amount,
         isCurrentPlayer: true
@@ -32,7 +55,7 @@ const Board: React.FC = () => {
       
       return () => clearTimeout(timer);
     }
-  }, [gameState.gameStatus, gameState.coinsAwarded, socket?.id]);
+  }, [readOnly, gameState.gameStatus, gameState.coinsAwarded, socket?.id]);
 
   const handleSquareClick = (row: number, col: number) => {
     if (!canPlay) return;
@@ -253,7 +276,10 @@ const Board: React.FC = () => {
               {gameState.board.map((row, rowIndex) =>
                 row.map((cell, colIndex) => {
                   const isValid = isValidMove(rowIndex, colIndex);
+                  const isHint = canPlay && isValid && hintMove?.[0] === rowIndex && hintMove?.[1] === colIndex;
                   const squareColorClass = getSquareColor(rowIndex, colIndex);
+                  const isLastMove = highlight?.move?.[0] === rowIndex && highlight?.move?.[1] === colIndex;
+                  const isFlipped = !!highlight?.flipped.some(([r, c]) => r === rowIndex && c === colIndex);
                   
                   return (
                     <motion.div
@@ -265,6 +291,9 @@ const Board: React.FC = () => {
                         ${!canPlay ? 'cursor-not-allowed' : ''}
                         transition-all duration-200 flex items-center justify-center
                         border border-gray-400/20
+                        ${isHint ? 'ring-4 ring-inset ring-yellow-300' : ''}
+                        ${isLastMove ? 'ring-4 ring-inset ring-red-400' : ''}
+                        ${isFlipped ? 'ring-2 ring-inset ring-orange-300' : ''}
                       `}
                       onClick={() => handleSquareClick(rowIndex, colIndex)}
                       whileHover={canPlay && isValid ? { scale: 1.05 } : {}}
@@ -296,6 +325,17 @@ const Board: React.FC = () => {
                         </motion.div>
                       )}
                       
+                      {/* Hint marker */}
+                      {isHint && (
+                        <motion.div
+                          className="absolute inset-0 flex items-center justify-center text-xl sm:text-2xl pointer-events-none"
+                          animate={{ scale: [0.9, 1.15, 0.9] }}
+                          transition={{ duration: 1.2, repeat: Infinity, ease: "easeInOut" }}
+                        >
+                          💡
+                        </motion.div>
+                      )}
+
                       {/* Game piece */}
                       {cell !== null && (
                         <motion.div
@@ -321,7 +361,7 @@ const Board: React.FC = () => {
       </div>
 
       {/* Turn indicator */}
-      {gameState.gameStatus === 'playing' && (
+      {!readOnly && gameState.gameStatus === 'playing' && (
         <motion.div
           className="text-center p-4 sm:p-5 rounded-xl bg-white/10 backdrop-blur-sm w-full max-w-lg"
           initial={{ opacity: 0, y: 20 }}
@@ -329,7 +369,15 @@ const Board: React.FC = () => {
           transition={{ duration: 0.3 }}
         >
           <div className="text-base sm:text-lg md:text-xl font-bold text-white mb-3">
-            {isMyTurn ? (
+            {isPaused ? (
+              <span className="text-orange-300">
+                {gameState.pause!.status === 'resuming' ? `▶️ Tiếp tục sau ${resumeCountdown}...` : '⏸️ Ván đấu đang tạm dừng'}
+              </span>
+            ) : isSpectating ? (
+              <span className="text-blue-400">
+                👀 Lượt của {gameState.players[gameState.currentPlayer - 1]?.displayName}
+              </span>
+            ) : isMyTurn ? (
               <span className="text-green-400">🎯 Lượt của bạn!</span>
             ) : (
               <span className="text-blue-400">⏳ Đang chờ đối thủ...</span>
@@ -346,7 +394,7 @@ const Board: React.FC = () => {
               animate={gameState.timeLeft <= 10 ? { scale: [1, 1.1, 1] } : {}}
               transition={{ duration: 0.5, repeat: gameState.timeLeft <= 10 ? Infinity : 0 }}
             >
-              {gameState.timeLeft}s
+              {gameState.clocks ? formatClock(gameState.clocks[gameState.currentPlayer]) : `${gameState.timeLeft}s`}
             </motion.span>
           </div>
         </motion.div>
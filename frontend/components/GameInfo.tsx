@@ -2,9 +2,10 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useGame } from '../contexts/GameContext';
 import { useSocket } from '../contexts/SocketContext';
-import { Player } from '../types';
+import { Player, PASS_LABELS, formatClock, formatTimeControl, formatTimeoutPolicy, isGamePaused } from '../types';
 import ThemeSelector from './ThemeSelector';
 import PlayerProfile from './PlayerProfile';
+import MoveHistory from './MoveHistory';
 import toast from 'react-hot-toast';
 
 // Define surrender confirmation state interface
@@ -20,7 +21,21 @@ const GameInfo: React.FC = () => {
     startGame, 
     isAIGame, 
     aiDifficulty,
-    surrenderGame
+    isSpectating,
+    surrenderGame,
+    requestHint,
+    isHintLoading,
+    copyTranscript,
+    requestRematch,
+    respondRematch,
+    offerDraw,
+    respondDraw,
+    requestUndo,
+    respondUndo,
+    requestPause,
+    respondPause,
+    resumeGame,
+    setAllowSpectators
   } = useGame();
   const { socket, currentPlayer, logoutPlayer } = useSocket();
   const [showRules, setShowRules] = useState(false);
@@ -31,6 +46,11 @@ const GameInfo: React.FC = () => {
   const isHost = gameState.players[0]?.id === socket?.id;
   const canStartGame = gameState.gameStatus === 'waiting' && gameState.players.length === 2;
   const isGameFinished = gameState.gameStatus === 'finished';
+
+  // Nước cuối là bỏ lượt: báo vì sao lượt lại về một bên
+  const lastRecord = gameState.moveHistory?.[gameState.moveHistory.length - 1];
+  const lastPass = lastRecord?.pass ? lastRecord : null;
+  const nameOfPiece = (piece: number) => gameState.players.find(p => p.color === (piece === 1 ? 'black' : 'white'))?.displayName;
   
   // Check if current player can surrender
   const canSurrender = () => {
@@ -60,9 +80,25 @@ const GameInfo: React.FC = () => {
   };
 
   const getWinner = () => {
+    // Hòa theo thỏa thuận thì không xét điểm
+    if (gameState.winnerId === 'draw') return null;
+
     const player1Score = gameState.scores[1];
     const player2Score = gameState.scores[2];
+
+    // Kết quả của server quyết định: thua vì hết giờ hay đầu hàng có thể ngược với số quân
+    const winnerIndex = gameState.players.findIndex(p => p.id === gameState.winnerId);
+    if (winnerIndex !== -1) {
+      return {
+        player: gameState.players[winnerIndex],
+        score: gameState.scores[winnerIndex === 0 ? 1 : 2],
+        opponentScore: gameState.scores[winnerIndex === 0 ? 2 : 1]
+      };
+    }
     
+    // Chỉ ván kết thúc trên bàn cờ mới tính theo số quân
+    if (gameState.validMoves.length > 0) return null;
+
     if (player1Score > player2Score) {
       return { 
         player: gameState.players[0], 
@@ -79,6 +115,63 @@ const GameInfo: React.FC = () => {
     return null; // Tie
   };
 
+  // Lý do thắng khi không phải do số quân
+  const getWinReason = (winner: Player) => {
+    const loserNum = winner.color === 'black' ? 2 : 1;
+    const loserName = nameOfPiece(loserNum);
+    if (gameState.clocks && gameState.clocks[loserNum] === 0) return `⏱️ ${loserName} hết giờ`;
+    const { timeoutPolicy, timeouts } = gameState;
+    if (timeoutPolicy.type === 'forfeit' && timeouts[loserNum] >= (timeoutPolicy.maxTimeouts || 1)) {
+      return `⌛ ${loserName} bị xử thua vì hết giờ ${timeouts[loserNum]} lần liên tiếp`;
+    }
+    return null;
+  };
+
+  // Tạm dừng chỉ giữa hai người chơi; yêu cầu của đối thủ hiện thành hộp thoại
+  const pause = gameState.pause;
+  const isPlayerInGame = !!socket && gameState.players.some(p => p.id === socket.id);
+  const canRequestPause = !isAIGame && !isSpectating && isPlayerInGame && gameState.gameStatus === 'playing' && !pause;
+  const hasPauseRequestFromOpponent = isPlayerInGame && pause?.status === 'requested' && pause.requestedBy !== socket?.id;
+
+  // Cầu hòa: chỉ giữa hai người chơi, mỗi lúc một lời
+  const drawOffer = gameState.drawOffer;
+  const canOfferDraw = !isAIGame && !isSpectating && isPlayerInGame && gameState.gameStatus === 'playing' && !drawOffer;
+  const hasDrawOfferFromOpponent = isPlayerInGame && !!drawOffer && drawOffer.playerId !== socket?.id;
+
+  // Tái đấu: sau ván hai người, đổi màu và không cần bấm sẵn sàng
+  const rematchRequest = gameState.rematchRequest;
+  const match = gameState.match;
+  const canRequestRematch = !isAIGame && !isSpectating && isPlayerInGame && isGameFinished &&
+    gameState.players.length === 2 && !rematchRequest && (!match || match.finished);
+  const hasRematchRequestFromOpponent = isPlayerInGame && !!rematchRequest && rematchRequest.playerId !== socket?.id;
+  const series = gameState.players.length === 2 ? gameState.series : undefined;
+
+  // Đi lại: cần một nước của mình; với AI không cần hỏi nhưng có giới hạn
+  const myColorNum = gameState.players.find(p => p.id === socket?.id)?.color === 'black' ? 1 : 2;
+  const undoRequest = gameState.undoRequest;
+  const hasMyMove = !!gameState.moveHistory?.some(move => move.player === myColorNum && !move.pass);
+  const canRequestUndo = !isSpectating && isPlayerInGame && gameState.gameStatus === 'playing' && !isGamePaused(gameState) &&
+    !undoRequest && hasMyMove && (!isAIGame || (gameState.undosLeft ?? 0) > 0);
+  const hasUndoRequestFromOpponent = isPlayerInGame && !!undoRequest && undoRequest.playerId !== socket?.id;
+
+  // Hints: only in unranked games, on the player's own turn
+  const myPlayer = gameState.players.find(p => p.id === socket?.id);
+  const hints = gameState.hints;
+  const hintsLeft = hints && myPlayer ? hints.limit - (hints.used[myPlayer.nickname] || 0) : 0;
+  const isMyTurn = !!myPlayer && myPlayer.color === (gameState.currentPlayer === 1 ? 'black' : 'white');
+  const canRequestHint = !!hints && isMyTurn && hintsLeft > 0 && !isHintLoading &&
+    (hints.coinCost === 0 || myPlayer!.coins >= hints.coinCost);
+
+  // Người xem: ai trong phòng cũng thấy danh sách, chỉ chủ phòng bật/tắt được
+  const spectators = gameState.spectators || [];
+  const isRoomOwner = !!myPlayer && myPlayer.displayName.toLowerCase() === gameState.ownerNickname;
+
+  // Only show the solver's result in AI games, and only while it still matches the position on the board
+  const perfectResult = gameState.perfectResult;
+  const showPerfectResult = isAIGame && !!perfectResult &&
+    perfectResult.toMove === gameState.currentPlayer &&
+    perfectResult.empties === 64 - gameState.scores[1] - gameState.scores[2];
+
   const copyRoomLink = async () => {
     try {
       const link = `${window.location.origin}?room=${roomId}`;
@@ -134,7 +227,7 @@ const GameInfo: React.FC = () => {
       >
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-4 md:mb-6 gap-3">
           <h2 className="text-lg sm:text-xl font-bold text-white">
-            {isAIGame ? `🤖 AI ${aiDifficulty?.toUpperCase()}` : '🎮 Thông tin phòng'}
+            {isSpectating ? (isAIGame ? '👀 AI đấu AI' : '👀 Đang xem phòng') : isAIGame ? `🤖 AI ${aiDifficulty?.toUpperCase()}` : '🎮 Thông tin phòng'}
           </h2>
           <div className="flex justify-center sm:justify-end">
             <ThemeSelector />
@@ -166,7 +259,24 @@ const GameInfo: React.FC = () => {
 
         {/* Players */}
         <div className="space-y-3 mb-4 md:mb-6">
-          <h3 className="text-base sm:text-lg font-semibold text-white">👥 Người chơi</h3>
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-base sm:text-lg font-semibold text-white">👥 Người chơi</h3>
+            <span className="text-xs sm:text-sm text-gray-300 text-right">
+              ⏱️ {formatTimeControl(gameState.timeControl)}
+              {gameState.timeControl.type === 'move' && ` · ${formatTimeoutPolicy(gameState.timeoutPolicy)}`}
+            </span>
+          </div>
+          {match && gameState.players.length === 2 && (
+            <div className="text-center text-xs sm:text-sm text-purple-200 font-semibold">
+              🎯 Trận BO{match.bestOf} · Ván {match.gameNumber}/{match.bestOf} · {gameState.players[0].displayName} {match.wins[gameState.players[0].nickname] || 0} - {match.wins[gameState.players[1].nickname] || 0} {gameState.players[1].displayName}
+            </div>
+          )}
+          {series && (
+            <div className="text-center text-xs sm:text-sm text-yellow-300 font-semibold">
+              🏆 Tỷ số loạt: {gameState.players[0].displayName} {series.wins[gameState.players[0].nickname] || 0} - {series.wins[gameState.players[1].nickname] || 0} {gameState.players[1].displayName}
+              {series.draws > 0 && ` (${series.draws} hòa)`}
+            </div>
+          )}
           <div className="grid grid-cols-1 gap-3">
             {gameState.players.map((player, index) => (
               <motion.div
@@ -209,6 +319,22 @@ const GameInfo: React.FC = () => {
                             <span className="text-yellow-300 font-bold text-xs">{player.coins}</span>
                           </motion.div>
                         )}
+                        {/* Đồng hồ cờ: quỹ giờ còn lại, sáng lên khi đang chạy */}
+                        {gameState.clocks && (
+                          <span className={`font-mono font-bold text-xs px-2 py-1 rounded-full ${
+                            gameState.gameStatus === 'playing' && gameState.currentPlayer === index + 1
+                              ? gameState.clocks[index + 1] <= 30 ? 'bg-red-500/30 text-red-300' : 'bg-yellow-500/20 text-yellow-300'
+                              : 'bg-black/30 text-gray-300'
+                          }`}>
+                            ⏱️ {formatClock(gameState.clocks[index + 1])}
+                          </span>
+                        )}
+                        {/* Số lần hết giờ liên tiếp khi phòng xử thua vì hết giờ */}
+                        {gameState.timeoutPolicy.type === 'forfeit' && gameState.timeouts[index + 1] > 0 && (
+                          <span className="text-xs px-2 py-1 rounded-full bg-red-500/30 text-red-300 font-bold">
+                            ⌛ {gameState.timeouts[index + 1]}/{gameState.timeoutPolicy.maxTimeouts}
+                          </span>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -240,6 +366,39 @@ const GameInfo: React.FC = () => {
           </div>
         </div>
 
+        {/* Spectators */}
+        {(spectators.length > 0 || isRoomOwner) && (
+          <div className="bg-black/20 rounded-lg p-3 sm:p-4 mb-4 md:mb-6 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm sm:text-base font-semibold text-white">👀 Người xem ({spectators.length})</h3>
+              {isRoomOwner && (
+                <label className="flex items-center gap-2 text-xs sm:text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={gameState.allowSpectators !== false}
+                    onChange={(e) => setAllowSpectators(e.target.checked)}
+                  />
+                  Cho phép xem
+                </label>
+              )}
+            </div>
+            {spectators.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {spectators.map(spectator => (
+                  <span key={spectator.id} className="text-xs sm:text-sm bg-white/10 text-gray-200 px-2 py-1 rounded-full">
+                    {spectator.emoji} {spectator.displayName}
+                    {spectator.id === socket?.id && ' (bạn)'}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs sm:text-sm text-gray-400">
+                {gameState.allowSpectators !== false ? 'Chưa có ai xem' : 'Phòng không cho người khác vào xem'}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Game Status */}
         <div className="mb-4 md:mb-6">
           <div className="bg-black/20 rounded-lg p-3 sm:p-4 text-center">
@@ -263,7 +422,7 @@ const GameInfo: React.FC = () => {
                   </motion.button>
                 )}
                 
-                {canStartGame && !isHost && (
+                {canStartGame && !isHost && isPlayerInGame && (
                   <motion.button
                     onClick={startGame}
                     className="w-full sm:w-auto px-6 sm:px-8 py-3 bg-blue-500 hover:bg-blue-600 text-white font-semibold rounded-lg transition-colors text-sm sm:text-lg"
@@ -281,7 +440,117 @@ const GameInfo: React.FC = () => {
                 <div className="text-green-400 font-semibold text-sm sm:text-lg">
                   🎮 Game đang diễn ra...
                 </div>
+
+                {lastPass && (
+                  <motion.div
+                    key={gameState.moveHistory!.length}
+                    className="bg-orange-500/20 border border-orange-400/40 rounded-lg px-3 py-2 text-orange-200 text-xs sm:text-sm"
+                    initial={{ opacity: 0, scale: 0.95 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                  >
+                    ⏭️ {nameOfPiece(lastPass.player)} {PASS_LABELS[lastPass.pass!]} - {nameOfPiece(gameState.currentPlayer)} đi tiếp
+                  </motion.div>
+                )}
+
+                {drawOffer && drawOffer.playerId === socket?.id && (
+                  <div className="text-orange-200 text-xs sm:text-sm">
+                    ⏳ Đang chờ đối thủ trả lời lời cầu hòa...
+                  </div>
+                )}
+
+                {undoRequest && undoRequest.playerId === socket?.id && (
+                  <div className="text-orange-200 text-xs sm:text-sm">
+                    ⏳ Đang chờ đối thủ đồng ý cho đi lại...
+                  </div>
+                )}
+
+                {pause?.status === 'requested' && pause.requestedBy === socket?.id && (
+                  <div className="text-orange-200 text-xs sm:text-sm">
+                    ⏳ Đang chờ đối thủ đồng ý tạm dừng...
+                  </div>
+                )}
+
+                {pause && pause.status !== 'requested' && (
+                  <div className="bg-orange-500/20 border border-orange-400/40 rounded-lg px-3 py-2 text-orange-200 text-xs sm:text-sm space-y-2">
+                    <div>
+                      {pause.status === 'paused'
+                        ? `⏸️ Đang tạm dừng theo yêu cầu của ${pause.requestedByName}`
+                        : '▶️ Chuẩn bị tiếp tục...'}
+                    </div>
+                    {pause.status === 'paused' && isPlayerInGame && (
+                      <motion.button
+                        onClick={resumeGame}
+                        className="px-4 py-2 bg-green-500 hover:bg-green-600 text-white font-semibold rounded-lg transition-colors text-sm"
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        ▶️ Tiếp tục
+                      </motion.button>
+                    )}
+                  </div>
+                )}
+
+                {gameState.openingName && (
+                  <div className="text-blue-300 text-xs sm:text-sm">
+                    📖 Khai cuộc: {gameState.openingName}
+                  </div>
+                )}
+
+                {showPerfectResult && perfectResult && (
+                  <div className="text-yellow-300 text-xs sm:text-sm">
+                    🧮 Nếu chơi hoàn hảo: {perfectResult.winner === 'draw'
+                      ? 'Hòa'
+                      : `${perfectResult.winner === 'black' ? 'Đen' : 'Trắng'} thắng ${perfectResult.margin} quân`}
+                  </div>
+                )}
                 
+                {/* Hint Button */}
+                {hints && myPlayer && (
+                  <motion.button
+                    onClick={requestHint}
+                    disabled={!canRequestHint}
+                    className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors text-sm flex items-center justify-center gap-2 mx-auto"
+                    whileHover={canRequestHint ? { scale: 1.05 } : {}}
+                    whileTap={canRequestHint ? { scale: 0.95 } : {}}
+                  >
+                    {isHintLoading ? '⏳ Đang tìm...' : '💡 Gợi ý'} (còn {hintsLeft}
+                    {hints.coinCost > 0 ? ` · ${hints.coinCost} xu` : ''})
+                  </motion.button>
+                )}
+
+                {canRequestUndo && (
+                  <motion.button
+                    onClick={requestUndo}
+                    className="px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-lg transition-colors text-sm flex items-center justify-center gap-2 mx-auto"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    ↩️ {isAIGame ? `Đi lại (còn ${gameState.undosLeft})` : 'Xin đi lại'}
+                  </motion.button>
+                )}
+
+                {canOfferDraw && (
+                  <motion.button
+                    onClick={offerDraw}
+                    className="px-4 py-2 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-lg transition-colors text-sm flex items-center justify-center gap-2 mx-auto"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    🤝 Cầu hòa
+                  </motion.button>
+                )}
+
+                {canRequestPause && (
+                  <motion.button
+                    onClick={requestPause}
+                    className="px-4 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg transition-colors text-sm flex items-center justify-center gap-2 mx-auto"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    ⏸️ Tạm dừng
+                  </motion.button>
+                )}
+
                 {/* Surrender Button */}
                 {canSurrender() && (
                   <motion.button
@@ -315,6 +584,9 @@ const GameInfo: React.FC = () => {
                         <div className="text-white text-sm sm:text-lg font-semibold p-2 sm:p-3 border-2 border-yellow-400/50 rounded-lg bg-yellow-400/10 mb-3">
                           Tỷ số: {winner.score} - {winner.opponentScore}
                         </div>
+                        {getWinReason(winner.player) && (
+                          <div className="text-gray-200 text-xs sm:text-sm mb-3">{getWinReason(winner.player)}</div>
+                        )}
                         
                         {/* Show coin transaction info */}
                         {gameState.coinTransactions && gameState.coinTransactions.length > 0 && (
@@ -385,22 +657,85 @@ const GameInfo: React.FC = () => {
                     );
                   }
                 })()}
+
+                {match && !match.finished && (
+                  <div className="text-purple-200 text-xs sm:text-sm">
+                    ⏭️ Ván {match.gameNumber + 1} sẽ bắt đầu sau vài giây, hai bên đổi màu quân. Xu được tính khi kết thúc trận.
+                  </div>
+                )}
+
+                {match?.finished && (
+                  <div className="text-purple-200 text-sm sm:text-base font-semibold">
+                    🏁 Kết thúc trận: {match.winner
+                      ? `${gameState.players.find(p => p.nickname === match.winner)?.displayName || match.winner} thắng trận`
+                      : 'Trận hòa'}
+                  </div>
+                )}
+
+                {canRequestRematch && (
+                  <motion.button
+                    onClick={requestRematch}
+                    className="px-6 py-3 bg-green-500 hover:bg-green-600 text-white font-semibold rounded-lg transition-colors text-sm sm:text-base mx-auto"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    🔁 Tái đấu (đổi màu)
+                  </motion.button>
+                )}
+
+                {rematchRequest && rematchRequest.playerId === socket?.id && (
+                  <div className="text-orange-200 text-xs sm:text-sm">
+                    ⏳ Đang chờ đối thủ đồng ý tái đấu...
+                  </div>
+                )}
               </motion.div>
             )}
           </div>
         </div>
 
+        {/* Move History */}
+        <MoveHistory moves={gameState.moveHistory || []} />
+
+        {/* Replay - mở tab mới để không rời phòng; biên bản để chia sẻ ván */}
+        {!!gameState.moveHistory?.length && (
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-3 mb-3">
+            {isGameFinished && (
+              <motion.button
+                onClick={() => window.open(`/replay/${gameState.gameId}`, '_blank')}
+                className="flex-1 px-4 py-2 sm:py-3 bg-indigo-500 hover:bg-indigo-600 text-white font-semibold rounded-lg transition-colors flex items-center justify-center space-x-2 text-sm sm:text-base"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <span>🎬</span>
+                <span>Xem lại ván đấu</span>
+              </motion.button>
+            )}
+            <motion.button
+              onClick={() => copyTranscript(gameState.gameId)}
+              className="flex-1 px-4 py-2 sm:py-3 bg-slate-500 hover:bg-slate-600 text-white font-semibold rounded-lg transition-colors flex items-center justify-center space-x-2 text-sm sm:text-base"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <span>📋</span>
+              <span>Sao chép biên bản</span>
+            </motion.button>
+          </div>
+        )}
+
         {/* Game Controls */}
         <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
-          <motion.button
-            onClick={newGame}
-            className="flex-1 px-4 py-2 sm:py-3 bg-purple-500 hover:bg-purple-600 text-white font-semibold rounded-lg transition-colors flex items-center justify-center space-x-2 text-sm sm:text-base"
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-          >
-            <span>🔄</span>
-            <span>Ván mới</span>
-          </motion.button>
+          {/* Người xem phòng hai người không được mở ván mới, và trận nhiều ván phải đấu hết */}
+          {(!isSpectating || isAIGame) && (!match || match.finished) && (
+            <motion.button
+              onClick={newGame}
+              className="flex-1 px-4 py-2 sm:py-3 bg-purple-500 hover:bg-purple-600 text-white font-semibold rounded-lg transition-colors flex items-center justify-center space-x-2 text-sm sm:text-base"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <span>🔄</span>
+              <span>Ván mới</span>
+            </motion.button>
+          )}
 
           <motion.button
             onClick={() => setShowRules(true)}
@@ -491,6 +826,198 @@ const GameInfo: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* Rematch Request Dialog */}
+      <AnimatePresence>
+        {hasRematchRequestFromOpponent && (
+          <motion.div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-gray-800 rounded-xl p-4 sm:p-6 max-w-md w-full border-2 border-green-500/30"
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+            >
+              <div className="text-center space-y-4">
+                <div className="text-6xl">🔁</div>
+                <h3 className="text-xl sm:text-2xl font-bold text-white">Lời mời tái đấu</h3>
+                <p className="text-sm sm:text-base text-gray-300">
+                  {rematchRequest!.playerName} muốn chơi tiếp. Hai bên sẽ đổi màu quân và ván mới bắt đầu ngay.
+                </p>
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <motion.button
+                    onClick={() => respondRematch(false)}
+                    className="flex-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Từ chối
+                  </motion.button>
+                  <motion.button
+                    onClick={() => respondRematch(true)}
+                    className="flex-1 px-4 py-2 bg-green-500 hover:bg-green-600 text-white font-semibold rounded-lg transition-colors"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Tái đấu
+                  </motion.button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Draw Offer Dialog */}
+      <AnimatePresence>
+        {hasDrawOfferFromOpponent && (
+          <motion.div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-gray-800 rounded-xl p-4 sm:p-6 max-w-md w-full border-2 border-teal-500/30"
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+            >
+              <div className="text-center space-y-4">
+                <div className="text-6xl">🤝</div>
+                <h3 className="text-xl sm:text-2xl font-bold text-white">Lời cầu hòa</h3>
+                <div className="space-y-3 text-gray-300">
+                  <p className="text-sm sm:text-base">
+                    {drawOffer!.playerName} muốn hòa ván này.
+                  </p>
+                  <div className="bg-teal-500/20 border border-teal-500/30 rounded-lg p-3">
+                    <ul className="text-xs space-y-1 text-teal-200">
+                      <li>• Ván đấu kết thúc ngay với kết quả hòa, không xét điểm trên bàn</li>
+                      <li>• Xu được tính như một ván hòa</li>
+                    </ul>
+                  </div>
+                </div>
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <motion.button
+                    onClick={() => respondDraw(false)}
+                    className="flex-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Từ chối
+                  </motion.button>
+                  <motion.button
+                    onClick={() => respondDraw(true)}
+                    className="flex-1 px-4 py-2 bg-teal-500 hover:bg-teal-600 text-white font-semibold rounded-lg transition-colors"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Đồng ý hòa
+                  </motion.button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Undo Request Dialog */}
+      <AnimatePresence>
+        {hasUndoRequestFromOpponent && (
+          <motion.div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-gray-800 rounded-xl p-4 sm:p-6 max-w-md w-full border-2 border-sky-500/30"
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+            >
+              <div className="text-center space-y-4">
+                <div className="text-6xl">↩️</div>
+                <h3 className="text-xl sm:text-2xl font-bold text-white">Yêu cầu đi lại</h3>
+                <p className="text-sm sm:text-base text-gray-300">
+                  {undoRequest!.playerName} muốn đi lại nước vừa rồi. Bàn cờ sẽ trở về trước nước đó của họ.
+                </p>
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <motion.button
+                    onClick={() => respondUndo(false)}
+                    className="flex-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Từ chối
+                  </motion.button>
+                  <motion.button
+                    onClick={() => respondUndo(true)}
+                    className="flex-1 px-4 py-2 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-lg transition-colors"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Đồng ý
+                  </motion.button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Pause Request Dialog */}
+      <AnimatePresence>
+        {hasPauseRequestFromOpponent && (
+          <motion.div
+            className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+          >
+            <motion.div
+              className="bg-gray-800 rounded-xl p-4 sm:p-6 max-w-md w-full border-2 border-orange-500/30"
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+            >
+              <div className="text-center space-y-4">
+                <div className="text-6xl">⏸️</div>
+                <h3 className="text-xl sm:text-2xl font-bold text-white">Yêu cầu tạm dừng</h3>
+                <p className="text-sm sm:text-base text-gray-300">
+                  {pause!.requestedByName} muốn tạm dừng ván đấu. Đồng hồ sẽ dừng cho tới khi một bên bấm tiếp tục.
+                </p>
+
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <motion.button
+                    onClick={() => respondPause(false)}
+                    className="flex-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition-colors"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Từ chối
+                  </motion.button>
+                  <motion.button
+                    onClick={() => respondPause(true)}
+                    className="flex-1 px-4 py-2 bg-orange-500 hover:bg-orange-600 text-white font-semibold rounded-lg transition-colors"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Đồng ý
+                  </motion.button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Rules Modal */}
       <AnimatePresence>
         {showRules && (
@@ -586,8 +1113,9 @@ const GameInfo: React.FC = () => {
                   <h4 className="font-semibold text-white mb-2">🤖 Chế độ AI:</h4>
                   <ul className="list-disc list-inside space-y-1">
                     <li><strong>Dễ:</strong> AI đi ngẫu nhiên</li>
-                    <li><strong>Trung bình:</strong> AI ưu tiên góc và cạnh</li>
-                    <li><strong>Khó:</strong> AI sử dụng thuật toán đánh giá vị trí</li>
+                    <li><strong>Trung bình:</strong> AI đi theo sách khai cuộc, sau đó ưu tiên góc và cạnh</li>
+                    <li><strong>Khó:</strong> AI tính trước nhiều nước bằng minimax (alpha-beta), giải chính xác khi còn ít ô trống</li>
+                    <li><strong>Chuyên gia:</strong> AI dùng Monte Carlo Tree Search (UCT)</li>
                   </ul>
                 </div>
               </div>
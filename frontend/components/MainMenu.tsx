@@ -2,16 +2,30 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useGame } from '../contexts/GameContext';
 import { useSocket } from '../contexts/SocketContext';
-import { AVAILABLE_EMOJIS, PIECE_EMOJI_OPTIONS, AIDifficulty } from '../types';
+import { AVAILABLE_EMOJIS, PIECE_EMOJI_OPTIONS, TIME_CONTROL_OPTIONS, TIMEOUT_POLICY_OPTIONS, MATCH_FORMAT_OPTIONS, AIDifficulty, ColorChoice } from '../types';
 import ThemeSelector from './ThemeSelector';
 import PlayerProfile from './PlayerProfile';
 
+const AI_DIFFICULTY_OPTIONS: { value: AIDifficulty; label: string; desc: string }[] = [
+  { value: 'easy', label: '😊 Dễ', desc: 'AI đi ngẫu nhiên' },
+  { value: 'medium', label: '🤔 Trung bình', desc: 'AI ưu tiên góc và cạnh' },
+  { value: 'hard', label: '😈 Khó', desc: 'AI thông minh và khó đánh bại' },
+  { value: 'expert', label: '🧠 Chuyên gia', desc: 'AI mô phỏng hàng nghìn ván (Monte Carlo)' }
+];
+
 const MainMenu: React.FC = () => {
-  const { createRoom, joinRoom, createAIGame } = useGame();
+  const { createRoom, joinRoom, createAIGame, createAIvsAIGame } = useGame();
   const { currentPlayer, logoutPlayer } = useSocket();
   const [activeTab, setActiveTab] = useState<'create' | 'join' | 'ai'>('create');
   const [roomId, setRoomId] = useState('');
   const [selectedDifficulty, setSelectedDifficulty] = useState<AIDifficulty>('medium');
+  const [selectedColor, setSelectedColor] = useState<ColorChoice>('black');
+  const [watchBlackDifficulty, setWatchBlackDifficulty] = useState<AIDifficulty>('hard');
+  const [watchWhiteDifficulty, setWatchWhiteDifficulty] = useState<AIDifficulty>('expert');
+  const [watchMoveDelay, setWatchMoveDelay] = useState(1000);
+  const [selectedTimeControl, setSelectedTimeControl] = useState(TIME_CONTROL_OPTIONS[0].id);
+  const [selectedTimeoutPolicy, setSelectedTimeoutPolicy] = useState(TIMEOUT_POLICY_OPTIONS[0].id);
+  const [selectedBestOf, setSelectedBestOf] = useState(MATCH_FORMAT_OPTIONS[0].bestOf);
   const [selectedPieceStyle, setSelectedPieceStyle] = useState(PIECE_EMOJI_OPTIONS[0]);
   const [showPieceSelector, setShowPieceSelector] = useState(false);
 
@@ -49,7 +63,7 @@ const MainMenu: React.FC = () => {
           white: selectedPieceStyle.white
         } : undefined
       };
-      createRoom(playerData);
+      createRoom(playerData, selectedTimeControl, selectedTimeoutPolicy, selectedBestOf);
     }
   };
 
@@ -79,7 +93,7 @@ const MainMenu: React.FC = () => {
           white: selectedPieceStyle.white
         } : undefined
       };
-      createAIGame(playerData, selectedDifficulty);
+      createAIGame(playerData, selectedDifficulty, selectedColor);
     }
   };
 
@@ -215,6 +229,54 @@ const MainMenu: React.FC = () => {
                   exit={{ opacity: 0, x: 20 }}
                   transition={{ duration: 0.3 }}
                 >
+                  <div>
+                    <label className="block text-white font-semibold mb-2">
+                      ⏱️ Thời gian:
+                    </label>
+                    <select
+                      value={selectedTimeControl}
+                      onChange={(e) => setSelectedTimeControl(e.target.value)}
+                      className="w-full px-3 py-2 bg-black/20 text-white rounded-lg border border-gray-600 focus:border-blue-400 focus:outline-none transition-colors"
+                    >
+                      {TIME_CONTROL_OPTIONS.map(option => (
+                        <option key={option.id} value={option.id} className="bg-gray-800">{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Chỉ đồng hồ theo nước mới có lựa chọn khi hết giờ */}
+                  {selectedTimeControl.startsWith('move') && (
+                    <div>
+                      <label className="block text-white font-semibold mb-2">
+                        ⌛ Khi hết giờ:
+                      </label>
+                      <select
+                        value={selectedTimeoutPolicy}
+                        onChange={(e) => setSelectedTimeoutPolicy(e.target.value)}
+                        className="w-full px-3 py-2 bg-black/20 text-white rounded-lg border border-gray-600 focus:border-blue-400 focus:outline-none transition-colors"
+                      >
+                        {TIMEOUT_POLICY_OPTIONS.map(option => (
+                          <option key={option.id} value={option.id} className="bg-gray-800">{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-white font-semibold mb-2">
+                      🏆 Thể thức:
+                    </label>
+                    <select
+                      value={selectedBestOf}
+                      onChange={(e) => setSelectedBestOf(Number(e.target.value))}
+                      className="w-full px-3 py-2 bg-black/20 text-white rounded-lg border border-gray-600 focus:border-blue-400 focus:outline-none transition-colors"
+                    >
+                      {MATCH_FORMAT_OPTIONS.map(option => (
+                        <option key={option.bestOf} value={option.bestOf} className="bg-gray-800">{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
                   <motion.button
                     type="submit"
                     className="w-full py-4 rounded-xl font-bold text-lg bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 text-white shadow-lg transition-all duration-200"
@@ -291,15 +353,11 @@ const MainMenu: React.FC = () => {
                       🎯 Chọn độ khó:
                     </label>
                     <div className="space-y-2">
-                      {[
-                        { value: 'easy', label: '😊 Dễ', desc: 'AI đi ngẫu nhiên' },
-                        { value: 'medium', label: '🤔 Trung bình', desc: 'AI ưu tiên góc và cạnh' },
-                        { value: 'hard', label: '😈 Khó', desc: 'AI thông minh và khó đánh bại' }
-                      ].map((difficulty) => (
+                      {AI_DIFFICULTY_OPTIONS.map((difficulty) => (
                         <motion.button
                           key={difficulty.value}
                           type="button"
-                          onClick={() => setSelectedDifficulty(difficulty.value as AIDifficulty)}
+                          onClick={() => setSelectedDifficulty(difficulty.value)}
                           className={`
                             w-full p-3 rounded-lg text-left transition-all duration-200 border-2
                             ${selectedDifficulty === difficulty.value
@@ -316,6 +374,37 @@ const MainMenu: React.FC = () => {
                       ))}
                     </div>
                   </div>
+
+                  <div>
+                    <label className="block text-white font-semibold mb-3">
+                      🎨 Chọn màu quân:
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {[
+                        { value: 'black', label: '⚫ Đen', desc: 'Đi trước' },
+                        { value: 'white', label: '⚪ Trắng', desc: 'AI đi trước' },
+                        { value: 'random', label: '🎲 Ngẫu nhiên', desc: 'Bốc thăm' }
+                      ].map((color) => (
+                        <motion.button
+                          key={color.value}
+                          type="button"
+                          onClick={() => setSelectedColor(color.value as ColorChoice)}
+                          className={`
+                            p-3 rounded-lg text-center transition-all duration-200 border-2
+                            ${selectedColor === color.value
+                              ? 'border-yellow-400 bg-yellow-400/20 text-white'
+                              : 'border-gray-600 bg-black/20 text-gray-300 hover:border-gray-500'
+                            }
+                          `}
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                        >
+                          <div className="font-semibold text-sm">{color.label}</div>
+                          <div className="text-xs text-gray-400">{color.desc}</div>
+                        </motion.button>
+                      ))}
+                    </div>
+                  </div>
                   
                   <motion.button
                     type="submit"
@@ -329,6 +418,50 @@ const MainMenu: React.FC = () => {
                   <p className="text-gray-300 text-sm text-center">
                     Thử thách bản thân với AI thông minh
                   </p>
+
+                  {/* AI-vs-AI spectator */}
+                  <div className="pt-4 border-t border-gray-600 space-y-3">
+                    <label className="block text-white font-semibold">
+                      👀 Xem AI đấu AI:
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {([
+                        ['⚫ Đen', watchBlackDifficulty, setWatchBlackDifficulty],
+                        ['⚪ Trắng', watchWhiteDifficulty, setWatchWhiteDifficulty]
+                      ] as const).map(([label, value, setValue]) => (
+                        <div key={label}>
+                          <div className="text-sm text-gray-400 mb-1">{label}</div>
+                          <select
+                            value={value}
+                            onChange={(e) => setValue(e.target.value as AIDifficulty)}
+                            className="w-full px-3 py-2 bg-black/20 text-white rounded-lg border border-gray-600 focus:border-blue-400 focus:outline-none transition-colors"
+                          >
+                            {AI_DIFFICULTY_OPTIONS.map((difficulty) => (
+                              <option key={difficulty.value} value={difficulty.value} className="bg-gray-800">{difficulty.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                    <select
+                      value={watchMoveDelay}
+                      onChange={(e) => setWatchMoveDelay(Number(e.target.value))}
+                      className="w-full px-3 py-2 bg-black/20 text-white rounded-lg border border-gray-600 focus:border-blue-400 focus:outline-none transition-colors"
+                    >
+                      <option value={300} className="bg-gray-800">⚡ Nhanh</option>
+                      <option value={1000} className="bg-gray-800">🚶 Bình thường</option>
+                      <option value={2500} className="bg-gray-800">🐢 Chậm</option>
+                    </select>
+                    <motion.button
+                      type="button"
+                      onClick={() => createAIvsAIGame(watchBlackDifficulty, watchWhiteDifficulty, watchMoveDelay)}
+                      className="w-full py-3 rounded-xl font-bold bg-gradient-to-r from-teal-500 to-cyan-500 hover:from-teal-600 hover:to-cyan-600 text-white shadow-lg transition-all duration-200"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      🍿 Bắt đầu xem
+                    </motion.button>
+                  </div>
                 </motion.form>
               )}
             </AnimatePresence>
@@ -471,6 +604,54 @@ const MainMenu: React.FC = () => {
                   exit={{ opacity: 0, x: 20 }}
                   transition={{ duration: 0.3 }}
                 >
+                  <div>
+                    <label className="block text-white font-semibold mb-2">
+                      ⏱️ Thời gian:
+                    </label>
+                    <select
+                      value={selectedTimeControl}
+                      onChange={(e) => setSelectedTimeControl(e.target.value)}
+                      className="w-full px-3 py-2 bg-black/20 text-white rounded-lg border border-gray-600 focus:border-blue-400 focus:outline-none transition-colors"
+                    >
+                      {TIME_CONTROL_OPTIONS.map(option => (
+                        <option key={option.id} value={option.id} className="bg-gray-800">{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Chỉ đồng hồ theo nước mới có lựa chọn khi hết giờ */}
+                  {selectedTimeControl.startsWith('move') && (
+                    <div>
+                      <label className="block text-white font-semibold mb-2">
+                        ⌛ Khi hết giờ:
+                      </label>
+                      <select
+                        value={selectedTimeoutPolicy}
+                        onChange={(e) => setSelectedTimeoutPolicy(e.target.value)}
+                        className="w-full px-3 py-2 bg-black/20 text-white rounded-lg border border-gray-600 focus:border-blue-400 focus:outline-none transition-colors"
+                      >
+                        {TIMEOUT_POLICY_OPTIONS.map(option => (
+                          <option key={option.id} value={option.id} className="bg-gray-800">{option.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-white font-semibold mb-2">
+                      🏆 Thể thức:
+                    </label>
+                    <select
+                      value={selectedBestOf}
+                      onChange={(e) => setSelectedBestOf(Number(e.target.value))}
+                      className="w-full px-3 py-2 bg-black/20 text-white rounded-lg border border-gray-600 focus:border-blue-400 focus:outline-none transition-colors"
+                    >
+                      {MATCH_FORMAT_OPTIONS.map(option => (
+                        <option key={option.bestOf} value={option.bestOf} className="bg-gray-800">{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
                   <motion.button
                     type="submit"
                     className="w-full py-4 rounded-xl font-bold text-lg bg-gradient-to-r from-green-500 to-blue-500 hover:from-green-600 hover:to-blue-600 text-white shadow-lg transition-all duration-200"
@@ -547,15 +728,11 @@ const MainMenu: React.FC = () => {
                       🎯 Chọn độ khó:
                     </label>
                     <div className="space-y-2">
-                      {[
-                        { value: 'easy', label: '😊 Dễ', desc: 'AI đi ngẫu nhiên' },
-                        { value: 'medium', label: '🤔 Trung bình', desc: 'AI ưu tiên góc và cạnh' },
-                        { value: 'hard', label: '😈 Khó', desc: 'AI thông minh và khó đánh bại' }
-                      ].map((difficulty) => (
+                      {AI_DIFFICULTY_OPTIONS.map((difficulty) => (
                         <motion.button
                           key={difficulty.value}
                           type="button"
-                          onClick={() => setSelectedDifficulty(difficulty.value as AIDifficulty)}
+                          onClick={() => setSelectedDifficulty(difficulty.value)}
                           className={`
                             w-full p-3 rounded-lg text-left transition-all duration-200 border-2
                             ${selectedDifficulty === difficulty.value
@@ -572,6 +749,37 @@ const MainMenu: React.FC = () => {
                       ))}
                     </div>
                   </div>
+
+                  <div>
+                    <label className="block text-white font-semibold mb-3">
+                      🎨 Chọn màu quân:
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      {[
+                        { value: 'black', label: '⚫ Đen', desc: 'Đi trước' },
+                        { value: 'white', label: '⚪ Trắng', desc: 'AI đi trước' },
+                        { value: 'random', label: '🎲 Ngẫu nhiên', desc: 'Bốc thăm' }
+                      ].map((color) => (
+                        <motion.button
+                          key={color.value}
+                          type="button"
+                          onClick={() => setSelectedColor(color.value as ColorChoice)}
+                          className={`
+                            p-3 rounded-lg text-center transition-all duration-200 border-2
+                            ${selectedColor === color.value
+                              ? 'border-yellow-400 bg-yellow-400/20 text-white'
+                              : 'border-gray-600 bg-black/20 text-gray-300 hover:border-gray-500'
+                            }
+                          `}
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                        >
+                          <div className="font-semibold text-sm">{color.label}</div>
+                          <div className="text-xs text-gray-400">{color.desc}</div>
+                        </motion.button>
+                      ))}
+                    </div>
+                  </div>
                   
                   <motion.button
                     type="submit"
@@ -585,6 +793,50 @@ const MainMenu: React.FC = () => {
                   <p className="text-gray-300 text-sm text-center">
                     Thử thách bản thân với AI thông minh
                   </p>
+
+                  {/* AI-vs-AI spectator */}
+                  <div className="pt-4 border-t border-gray-600 space-y-3">
+                    <label className="block text-white font-semibold">
+                      👀 Xem AI đấu AI:
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {([
+                        ['⚫ Đen', watchBlackDifficulty, setWatchBlackDifficulty],
+                        ['⚪ Trắng', watchWhiteDifficulty, setWatchWhiteDifficulty]
+                      ] as const).map(([label, value, setValue]) => (
+                        <div key={label}>
+                          <div className="text-sm text-gray-400 mb-1">{label}</div>
+                          <select
+                            value={value}
+                            onChange={(e) => setValue(e.target.value as AIDifficulty)}
+                            className="w-full px-3 py-2 bg-black/20 text-white rounded-lg border border-gray-600 focus:border-blue-400 focus:outline-none transition-colors"
+                          >
+                            {AI_DIFFICULTY_OPTIONS.map((difficulty) => (
+                              <option key={difficulty.value} value={difficulty.value} className="bg-gray-800">{difficulty.label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                    <select
+                      value={watchMoveDelay}
+                      onChange={(e) => setWatchMoveDelay(Number(e.target.value))}
+                      className="w-full px-3 py-2 bg-black/20 text-white rounded-lg border border-gray-600 focus:border-blue-400 focus:outline-none transition-colors"
+                    >
+                      <option value={300} className="bg-gray-800">⚡ Nhanh</option>
+                      <option value={1000} className="bg-gray-800">🚶 Bình thường</option>
+                      <option value={2500} className="bg-gray-800">🐢 Chậm</option>
+                    </select>
+                    <motion.button
+                      type="button"
+                      onClick={() => createAIvsAIGame(watchBlackDifficulty, watchWhiteDifficulty, watchMoveDelay)}
+                      className="w-full py-3 rounded-xl font-bold bg-gradient-to-r from-teal-500 to-cyan-500 hover:from-teal-600 hover:to-cyan-600 text-white shadow-lg transition-all duration-200"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      🍿 Bắt đầu xem
+                    </motion.button>
+                  </div>
                 </motion.form>
               )}
             </AnimatePresence>
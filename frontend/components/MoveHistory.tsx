@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+import { MoveRecord, PASS_LABELS, formatSquare } from '../types';
+
+interface MoveHistoryProps {
+  moves: MoveRecord[];
+}
+
+const MoveHistory: React.FC<MoveHistoryProps> = ({ moves }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Luôn cuộn xuống nước đi mới nhất
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [moves.length]);
+
+  if (moves.length === 0) return null;
+
+  let moveNumber = 0;
+
+  return (
+    <div className="mb-4 md:mb-6">
+      <h3 className="text-base sm:text-lg font-semibold text-white mb-2">📜 Nước đi ({moves.filter(move => !move.pass).length})</h3>
+      <div ref={listRef} className="bg-black/20 rounded-lg p-2 max-h-48 overflow-y-auto space-y-1">
+        {moves.map((move, index) => {
+          const piece = move.player === 1 ? '⚫' : '⚪';
+
+          if (move.pass) {
+            return (
+              <div key={index} className="flex items-center gap-2 text-xs sm:text-sm text-gray-400 italic px-2">
+                <span className="w-8" />
+                <span>{piece} {PASS_LABELS[move.pass]}</span>
+              </div>
+            );
+          }
+
+          moveNumber++;
+          return (
+            <div key={index} className="flex items-center justify-between gap-2 text-xs sm:text-sm text-gray-200 px-2">
+              <span className="flex items-center gap-2">
+                <span className="w-8 text-gray-400 font-mono">{moveNumber}.</span>
+                <span>{piece} <span className="font-mono font-semibold">{formatSquare(move.row, move.col)}</span></span>
+                <span className="text-green-400">+{move.flipped.length}</span>
+              </span>
+              <span className="text-gray-400">⏱️ {move.timeLeft}s</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MoveHistory;
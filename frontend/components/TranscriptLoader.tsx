@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { useSocket } from '../contexts/SocketContext';
+
+// Dán biên bản (f5d6c3... có thể kèm [Black "..."] ở đầu) để xem lại trên bàn cờ
+const TranscriptLoader: React.FC = () => {
+  const { socket } = useSocket();
+  const [text, setText] = useState('');
+
+  const loadTranscript = () => {
+    if (socket && text.trim()) {
+      socket.emit('loadTranscript', text);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-xl p-3 sm:p-4 space-y-3 w-full text-left">
+      <h3 className="text-base sm:text-lg font-semibold text-white">📥 Tải ván từ biên bản</h3>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="f5d6c3d3c4f4f6f3e6e7..."
+        rows={4}
+        maxLength={5000}
+        className="w-full px-3 py-2 bg-black/30 text-white font-mono text-sm rounded-lg border border-white/10 focus:outline-none focus:border-purple-400"
+      />
+      <button
+        onClick={loadTranscript}
+        disabled={!text.trim()}
+        className="w-full px-4 py-2 bg-purple-500 hover:bg-purple-600 disabled:opacity-40 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors text-sm sm:text-base"
+      >
+        Tải ván
+      </button>
+    </div>
+  );
+};
+
+export default TranscriptLoader;
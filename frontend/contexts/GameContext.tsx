@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { GameState, ChatMessage, ThemeColors, BOARD_THEMES, AIDifficulty, CoinTransaction, getResultMessage } from '../types';
+import { GameState, ChatMessage, ThemeColors, BOARD_THEMES, AIDifficulty, ColorChoice, CoinTransaction, AutoMove, TurnClock, TurnPassed, PASS_LABELS, formatSquare, isGamePaused, getResultMessage } from '../types';
 import { useSocket } from './SocketContext';
 import toast from 'react-hot-toast';
 
@@ -10,17 +10,33 @@ interface GameContextType {
   currentTheme: ThemeColors;
   isAIGame: boolean;
   aiDifficulty: AIDifficulty | null;
+  isSpectating: boolean; // Đang xem trận AI đấu AI hoặc xem phòng đã đủ người
+  hintMove: [number, number] | null; // Nước gợi ý cho lượt hiện tại
+  isHintLoading: boolean;
   
   // Actions
-  createRoom: (playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }) => void;
+  createRoom: (playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }, timeControl?: string, timeoutPolicy?: string, bestOf?: number) => void;
   joinRoom: (roomId: string, playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }) => void;
-  createAIGame: (playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }, difficulty: AIDifficulty) => void;
+  createAIGame: (playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }, difficulty: AIDifficulty, color?: ColorChoice) => void;
+  createAIvsAIGame: (blackDifficulty: AIDifficulty, whiteDifficulty: AIDifficulty, moveDelayMs: number) => void;
   makeMove: (row: number, col: number) => void;
   startGame: () => void;
   newGame: () => void;
   sendMessage: (message: string) => void;
   setTheme: (theme: ThemeColors) => void;
   surrenderGame: () => void; // NEW: Add surrender function
+  requestHint: () => void;
+  copyTranscript: (gameId: string) => void; // Sao chép biên bản ván (f5d6...) vào clipboard
+  requestRematch: () => void;
+  respondRematch: (accept: boolean) => void;
+  offerDraw: () => void;
+  respondDraw: (accept: boolean) => void;
+  requestUndo: () => void;
+  respondUndo: (accept: boolean) => void;
+  requestPause: () => void;
+  respondPause: (accept: boolean) => void;
+  resumeGame: () => void;
+  setAllowSpectators: (allow: boolean) => void;
 }
 
 const GameContext = createContext<GameContextType | undefined>(undefined);
@@ -45,6 +61,11 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   const [currentTheme, setCurrentTheme] = useState<ThemeColors>(BOARD_THEMES[0]);
   const [isAIGame, setIsAIGame] = useState(false);
   const [aiDifficulty, setAiDifficulty] = useState<AIDifficulty | null>(null);
+  const [isSpectating, setIsSpectating] = useState(false);
+  const [hintMove, setHintMove] = useState<[number, number] | null>(null);
+  const [isHintLoading, setIsHintLoading] = useState(false);
+  // Lượt đang chạy, deadline đã đổi sang giờ của máy này
+  const [turnClock, setTurnClock] = useState<TurnClock | null>(null);
 
   // Helper function to sync current player coins with game state
   const syncPlayerCoins = (gameState: GameState) => {
@@ -84,7 +105,7 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
         // Extract AI difficulty from AI player's name
         const aiPlayer = reconnectedGameState.players.find((p: any) => p.id === 'AI');
         if (aiPlayer && aiPlayer.displayName) {
-          const difficultyMatch = aiPlayer.displayName.match(/\((EASY|MEDIUM|HARD)\)/);
+          const difficultyMatch = aiPlayer.displayName.match(/\((EASY|MEDIUM|HARD|EXPERT)\)/);
           if (difficultyMatch) {
             setAiDifficulty(difficultyMatch[1].toLowerCase() as AIDifficulty);
           }
@@ -116,16 +137,19 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       setGameState(syncedGameState);
       setIsAIGame(false);
       setAiDifficulty(null);
+      setIsSpectating(false);
       toast.success(`Phòng đã tạo! Mã: ${data.roomId}`);
     });
 
-    socket.on('roomJoined', (data: { roomId: string; gameState: GameState }) => {
+    // Phòng đã đủ hai người thì vào với tư cách người xem
+    socket.on('roomJoined', (data: { roomId: string; gameState: GameState; asSpectator?: boolean }) => {
       setRoomId(data.roomId);
       const syncedGameState = syncPlayerCoins(data.gameState);
       setGameState(syncedGameState);
       setIsAIGame(false);
       setAiDifficulty(null);
-      toast.success('Đã vào phòng!');
+      setIsSpectating(!!data.asSpectator);
+      toast.success(data.asSpectator ? '👀 Phòng đã đủ người - bạn đang xem' : 'Đã vào phòng!');
     });
 
     socket.on('aiGameCreated', (data: { roomId: string; gameState: GameState; difficulty: AIDifficulty }) => {
@@ -134,9 +158,19 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       setGameState(syncedGameState);
       setIsAIGame(true);
       setAiDifficulty(data.difficulty);
+      setIsSpectating(false);
       toast.success(`Bắt đầu chơi với AI ${data.difficulty.toUpperCase()}!`);
     });
 
+    socket.on('aiVsAiGameCreated', (data: { roomId: string; gameState: GameState }) => {
+      setRoomId(data.roomId);
+      setGameState(data.gameState);
+      setIsAIGame(true);
+      setAiDifficulty(null);
+      setIsSpectating(true);
+      toast.success('Bắt đầu xem AI đấu AI!');
+    });
+
     socket.on('gameStateUpdate', (newGameState: GameState) => {
       setGameState(prevState => {
         // Show coin transaction notifications
@@ -203,8 +237,8 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       setMessages(prev => [...prev, message]);
     });
 
-    socket.on('timerUpdate', (timeLeft: number) => {
-      setGameState(prev => prev ? { ...prev, timeLeft } : null);
+    socket.on('turnClock', (data: TurnClock) => {
+      setTurnClock({ ...data, deadline: data.deadline + (Date.now() - data.serverNow) });
     });
 
     // NEW: Listen for surrender events
@@ -249,7 +283,55 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       }
     });
 
+    socket.on('hintResult', (data: { row: number; col: number }) => {
+      setHintMove([data.row, data.col]);
+      setIsHintLoading(false);
+    });
+
+    socket.on('turnPassed', (data: TurnPassed) => {
+      const isMe = currentPlayer && data.playerName === currentPlayer.displayName;
+      toast(`${isMe ? 'Bạn' : data.playerName} ${PASS_LABELS[data.reason]}`, { icon: '⏭️' });
+    });
+
+    socket.on('autoMove', (data: AutoMove) => {
+      const isMe = currentPlayer && data.playerName === currentPlayer.displayName;
+      toast(`${isMe ? 'Bạn' : data.playerName} hết giờ - tự động đi ${formatSquare(data.row, data.col)}`, { icon: '🎲' });
+    });
+
+    socket.on('rematchDeclined', (data: { playerName: string }) => {
+      toast(`${data.playerName} từ chối tái đấu`, { icon: '🚫' });
+    });
+
+    socket.on('drawDeclined', (data: { playerName: string }) => {
+      toast(`${data.playerName} từ chối hòa`, { icon: '🚫' });
+    });
+
+    socket.on('moveUndone', (data: { playerName: string }) => {
+      const isMe = currentPlayer && data.playerName === currentPlayer.displayName;
+      toast(`${isMe ? 'Bạn' : data.playerName} đã đi lại`, { icon: '↩️' });
+    });
+
+    socket.on('undoDeclined', (data: { playerName: string }) => {
+      toast(`${data.playerName} không đồng ý cho đi lại`, { icon: '🚫' });
+    });
+
+    socket.on('pauseDeclined', (data: { playerName: string }) => {
+      toast(`${data.playerName} không đồng ý tạm dừng`, { icon: '▶️' });
+    });
+
+    socket.on('spectatingEnded', (message: string) => {
+      toast(message, { icon: '🚪' });
+      setTimeout(() => { window.location.href = '/'; }, 2000);
+    });
+
+    socket.on('transcript', (data: { gameId: string; text: string }) => {
+      navigator.clipboard.writeText(data.text)
+        .then(() => toast.success('📋 Đã sao chép biên bản ván đấu'))
+        .catch(() => toast.error('Không thể sao chép vào clipboard'));
+    });
+
     socket.on('error', (errorMessage: string) => {
+      setIsHintLoading(false);
       toast.error(errorMessage);
     });
 
@@ -257,14 +339,55 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
       socket.off('roomCreated');
       socket.off('roomJoined');
       socket.off('aiGameCreated');
+      socket.off('aiVsAiGameCreated');
       socket.off('gameStateUpdate');
       socket.off('newMessage');
-      socket.off('timerUpdate');
+      socket.off('turnClock');
       socket.off('playerSurrendered'); // NEW: Clean up surrender listener
+      socket.off('hintResult');
+      socket.off('turnPassed');
+      socket.off('autoMove');
+      socket.off('rematchDeclined');
+      socket.off('drawDeclined');
+      socket.off('moveUndone');
+      socket.off('undoDeclined');
+      socket.off('pauseDeclined');
+      socket.off('spectatingEnded');
+      socket.off('transcript');
       socket.off('error');
     };
   }, [socket, currentPlayer, refreshPlayerData]);
 
+  // Đếm ngược tại chỗ tới deadline của lượt; server tự xử lý khi hết giờ
+  useEffect(() => {
+    if (!turnClock) return;
+
+    const tick = () => {
+      const msLeft = Math.max(0, Math.min(turnClock.seconds * 1000, turnClock.deadline - Date.now()));
+      const timeLeft = Math.ceil(msLeft / 1000);
+      setGameState(prev => {
+        if (!prev || prev.gameStatus !== 'playing' || prev.currentPlayer !== turnClock.player || isGamePaused(prev)) return prev;
+        if (prev.timeLeft === timeLeft && (!prev.clocks || prev.clocks[turnClock.player] === timeLeft)) return prev;
+        // Với đồng hồ cờ, quỹ giờ của bên đang đi giảm theo
+        return {
+          ...prev,
+          timeLeft,
+          clocks: prev.clocks && { ...prev.clocks, [turnClock.player]: timeLeft }
+        };
+      });
+    };
+
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [turnClock]);
+
+  // A hint only applies to the position it was asked for
+  const boardKey = gameState ? JSON.stringify(gameState.board) : '';
+  useEffect(() => {
+    setHintMove(null);
+  }, [boardKey, roomId]);
+
   // Update game state when current player data changes (coins updated)
   useEffect(() => {
     if (currentPlayer && gameState) {
@@ -275,12 +398,12 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     }
   }, [currentPlayer?.coins]);
 
-  const createRoom = (playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }) => {
+  const createRoom = (playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }, timeControl?: string, timeoutPolicy?: string, bestOf?: number) => {
     if (!socket || !currentPlayer) {
       toast.error('Bạn cần đăng nhập trước!');
       return;
     }
-    socket.emit('createRoom', playerData);
+    socket.emit('createRoom', { ...playerData, timeControl, timeoutPolicy, bestOf });
   };
 
   const joinRoom = (roomId: string, playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }) => {
@@ -291,12 +414,20 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     socket.emit('joinRoom', { roomId, playerData });
   };
 
-  const createAIGame = (playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }, difficulty: AIDifficulty) => {
+  const createAIGame = (playerData: { name: string; emoji: string; pieceEmoji?: { black: string; white: string } }, difficulty: AIDifficulty, color: ColorChoice = 'black') => {
+    if (!socket || !currentPlayer) {
+      toast.error('Bạn cần đăng nhập trước!');
+      return;
+    }
+    socket.emit('createAIGame', { playerData, difficulty, color });
+  };
+
+  const createAIvsAIGame = (blackDifficulty: AIDifficulty, whiteDifficulty: AIDifficulty, moveDelayMs: number) => {
     if (!socket || !currentPlayer) {
       toast.error('Bạn cần đăng nhập trước!');
       return;
     }
-    socket.emit('createAIGame', { playerData, difficulty });
+    socket.emit('createAIvsAIGame', { blackDifficulty, whiteDifficulty, moveDelayMs });
   };
 
   const makeMove = (row: number, col: number) => {
@@ -366,6 +497,68 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   socket.emit('surrenderRequest', roomId);
   };
 
+  const requestRematch = () => {
+    if (!socket || !roomId) return;
+    socket.emit('requestRematch', roomId);
+  };
+
+  const respondRematch = (accept: boolean) => {
+    if (!socket || !roomId) return;
+    socket.emit('respondRematch', { roomId, accept });
+  };
+
+  const offerDraw = () => {
+    if (!socket || !roomId) return;
+    socket.emit('offerDraw', roomId);
+  };
+
+  const respondDraw = (accept: boolean) => {
+    if (!socket || !roomId) return;
+    socket.emit('respondDraw', { roomId, accept });
+  };
+
+  const requestUndo = () => {
+    if (!socket || !roomId) return;
+    socket.emit('requestUndo', roomId);
+  };
+
+  const respondUndo = (accept: boolean) => {
+    if (!socket || !roomId) return;
+    socket.emit('respondUndo', { roomId, accept });
+  };
+
+  const requestPause = () => {
+    if (!socket || !roomId) return;
+    socket.emit('requestPause', roomId);
+  };
+
+  const respondPause = (accept: boolean) => {
+    if (!socket || !roomId) return;
+    socket.emit('respondPause', { roomId, accept });
+  };
+
+  const resumeGame = () => {
+    if (!socket || !roomId) return;
+    socket.emit('resumeGame', roomId);
+  };
+
+  const setAllowSpectators = (allow: boolean) => {
+    if (!socket || !roomId) return;
+    socket.emit('setAllowSpectators', { roomId, allow });
+  };
+
+  const requestHint = () => {
+    if (!socket || !roomId || isHintLoading) return;
+    setIsHintLoading(true);
+    socket.emit('requestHint', roomId);
+  };
+
+  const copyTranscript = (gameId: string) => {
+    if (socket) {
+      socket.emit('getTranscript', gameId);
+    }
+  };
+
   return (
     <GameContext.Provider
       value={{
@@ -375,15 +568,31 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
         currentTheme,
         isAIGame,
         aiDifficulty,
+        isSpectating,
+        hintMove,
+        isHintLoading,
         createRoom,
         joinRoom,
         createAIGame,
+        createAIvsAIGame,
         makeMove,
         startGame,
         newGame,
         sendMessage,
         setTheme,
         surrenderGame, // NEW: Expose surrender function
+        requestHint,
+        copyTranscript,
+        requestRematch,
+        respondRematch,
+        offerDraw,
+        respondDraw,
+        requestUndo,
+        respondUndo,
+        requestPause,
+        respondPause,
+        resumeGame,
+        setAllowSpectators,
       }}
     >
       {children}
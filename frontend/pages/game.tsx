@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { useGame } from '../contexts/GameContext';
 import Board from '../components/Board';
 import GameInfo from '../components/GameInfo';
+import AnalysisPanel from '../components/AnalysisPanel';
 import Chat from '../components/Chat';
 import VoiceControls from '../components/VoiceControls';
 import SurrenderButton from '../components/SurrenderButton'; // NEW: Import SurrenderButton
@@ -40,6 +41,9 @@ const GamePage: React.FC = () => {
             <Board />
           </motion.div>
 
+          {/* Post-game analysis - under the board once the game ends */}
+          <AnalysisPanel />
+
           {/* Game Info - Bottom on mobile/tablet */}
           <motion.div
             initial={{ opacity: 0, y: 50 }}
@@ -54,12 +58,13 @@ const GamePage: React.FC = () => {
         <div className="hidden xl:grid xl:grid-cols-5 gap-8 min-h-screen">
           {/* Game Info - Left Column (2/5 width) */}
           <motion.div
-            className="xl:col-span-2 flex flex-col justify-start"
+            className="xl:col-span-2 flex flex-col justify-start space-y-6"
             initial={{ opacity: 0, x: -50 }}
             animate={{ opacity: 1, x: 0 }}
             transition={{ duration: 0.5 }}
           >
             <GameInfo />
+            <AnalysisPanel />
           </motion.div>
 
           {/* Game Board - Right Column (3/5 width) */}
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import { motion } from 'framer-motion';
+import { useGame } from '../../contexts/GameContext';
+import { useSocket } from '../../contexts/SocketContext';
+import Board from '../../components/Board';
+import TranscriptLoader from '../../components/TranscriptLoader';
+import { ArchivedGame, GameEndReason, GameState, ReplayFrame, formatSquare } from '../../types';
+
+const REPLAY_SPEEDS = [
+  { label: 'Nhanh', ms: 500 },
+  { label: 'Vừa', ms: 1000 },
+  { label: 'Chậm', ms: 2000 }
+];
+
+const END_REASONS: { [key in GameEndReason]: string } = {
+  normal: 'hết nước đi',
+  surrender: 'đầu hàng',
+  timeout: 'hết giờ',
+  disconnect: 'mất kết nối',
+  agreement: 'thỏa thuận hòa'
+};
+
+const ReplayPage: React.FC = () => {
+  const router = useRouter();
+  const { socket, isConnected } = useSocket();
+  const { currentTheme, copyTranscript } = useGame();
+  const [game, setGame] = useState<ArchivedGame | null>(null);
+  const [frames, setFrames] = useState<ReplayFrame[]>([]);
+  const [ply, setPly] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedMs, setSpeedMs] = useState(1000);
+  const [notFound, setNotFound] = useState(false);
+
+  // /replay/<id> xem ván đã lưu; /replay chỉ để tải ván từ biên bản
+  const gameId = Array.isArray(router.query.gameId) ? router.query.gameId[0] : null;
+
+  // Ván đã lưu hoặc ván tải từ biên bản đều đến qua replayData
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleReplayData = (data: { game: ArchivedGame; frames: ReplayFrame[] }) => {
+      setGame(data.game);
+      setFrames(data.frames);
+      setPly(0);
+      setIsPlaying(false);
+      setNotFound(false);
+    };
+
+    socket.on('replayData', handleReplayData);
+    return () => {
+      socket.off('replayData', handleReplayData);
+    };
+  }, [socket]);
+
+  // Tải ván đấu khi đã kết nối
+  useEffect(() => {
+    if (!socket || !isConnected || !gameId) return;
+
+    const handleError = () => setNotFound(true);
+    socket.once('error', handleError);
+    socket.emit('getReplay', gameId);
+
+    return () => {
+      socket.off('error', handleError);
+    };
+  }, [socket, isConnected, gameId]);
+
+  // Tự động chạy tới nước tiếp theo
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (ply >= frames.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setPly(ply + 1), speedMs);
+    return () => clearTimeout(timer);
+  }, [isPlaying, ply, speedMs, frames.length]);
+
+  if (!game || frames.length === 0) {
+    const isLoading = !!gameId && !notFound;
+
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
+        <motion.div
+          className="text-center text-white space-y-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+        >
+          <div className="text-6xl">🎬</div>
+          <div className="text-xl">{isLoading ? 'Đang tải ván đấu...' : notFound ? 'Không tìm thấy ván đấu' : 'Xem lại ván đấu'}</div>
+          {!isLoading && (
+            <>
+              <div className="w-80 sm:w-96">
+                <TranscriptLoader />
+              </div>
+              <a href="/" className="inline-block px-4 py-2 bg-purple-500 hover:bg-purple-600 rounded-lg font-semibold">
+                🏠 Về menu
+              </a>
+            </>
+          )}
+        </motion.div>
+      </div>
+    );
+  }
+
+  const lastPly = frames.length - 1;
+  const frame = frames[ply];
+  const move = frame.move;
+
+  // Board chỉ cần thế cờ và người chơi để vẽ quân
+  const frameState: GameState = {
+    gameId: game.id,
+    board: frame.board,
+    players: game.players.map(player => ({
+      ...player,
+      id: `replay-${player.color}`,
+      isReady: true,
+      coins: 0,
+      isAuthenticated: false
+    })),
+    currentPlayer: frame.currentPlayer,
+    gameStatus: 'finished',
+    scores: frame.scores,
+    validMoves: [],
+    timeLeft: 0,
+    timeControl: { type: 'move', baseSeconds: 0, bonusSeconds: 0 },
+    timeoutPolicy: { type: 'skip' },
+    timeouts: { 1: 0, 2: 0 }
+  };
+
+  const goTo = (target: number) => {
+    setIsPlaying(false);
+    setPly(Math.max(0, Math.min(lastPly, target)));
+  };
+
+  const togglePlay = () => {
+    if (!isPlaying && ply >= lastPly) setPly(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const describeMove = () => {
+    if (!move) return 'Thế cờ ban đầu';
+    const piece = move.player === 1 ? '⚫' : '⚪';
+    if (move.pass) return `Nước ${ply}: ${piece} bỏ lượt`;
+    return `Nước ${ply}: ${piece} ${formatSquare(move.row, move.col)} lật ${frame.flipped.length} quân`;
+  };
+
+  const controlClass = 'px-3 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded-lg transition-colors text-lg';
+
+  return (
+    <div className="min-h-screen p-2 sm:p-4 lg:p-6">
+      <div className="max-w-3xl mx-auto space-y-4 sm:space-y-6">
+        {/* Header */}
+        <motion.div
+          className="bg-white/10 backdrop-blur-sm rounded-xl p-3 sm:p-4 flex items-center justify-between gap-2"
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <div>
+            <h1 className="text-lg sm:text-xl font-bold text-white">🎬 Xem lại ván đấu</h1>
+            {/* Ván tải từ biên bản không có id và có thể chưa kết thúc */}
+            <div className="text-xs sm:text-sm text-gray-300">
+              {game.id
+                ? `${game.winner === 'draw' ? '🤝 Hòa' : `🏆 ${game.winner === 'black' ? '⚫ Đen' : '⚪ Trắng'} thắng`} ${game.scores[1]}-${game.scores[2]} (${END_REASONS[game.reason]})`
+                : '📥 Tải từ biên bản'}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {game.id && (
+              <button
+                onClick={() => copyTranscript(game.id)}
+                className="px-3 py-2 bg-slate-500 hover:bg-slate-600 text-white font-semibold rounded-lg text-sm"
+                title="Sao chép biên bản"
+              >
+                📋
+              </button>
+            )}
+            <a href="/" className="px-3 py-2 bg-red-500 hover:bg-red-600 text-white font-semibold rounded-lg text-sm">
+              🏠 Về menu
+            </a>
+          </div>
+        </motion.div>
+
+        {/* Players and scores at this ply */}
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          {game.players.map(player => {
+            const piece = player.color === 'black' ? 1 : 2;
+            return (
+              <div
+                key={player.color}
+                className={`bg-white/10 rounded-xl p-3 text-white ${frame.currentPlayer === piece && ply < lastPly ? 'ring-2 ring-yellow-400' : ''}`}
+              >
+                <div className="font-semibold truncate">{player.emoji} {player.displayName}</div>
+                <div className="text-2xl font-bold">{piece === 1 ? '⚫' : '⚪'} {frame.scores[piece]}</div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Board */}
+        <div className={`flex items-center justify-center rounded-2xl p-4 sm:p-6 shadow-2xl ${currentTheme.background} border border-white/10`}>
+          <Board
+            gameState={frameState}
+            readOnly
+            highlight={{ move: move && !move.pass ? [move.row, move.col] : undefined, flipped: frame.flipped }}
+          />
+        </div>
+
+        {/* Controls */}
+        <div className="bg-white/10 backdrop-blur-sm rounded-xl p-3 sm:p-4 space-y-3">
+          <div className="text-center text-white font-semibold">{describeMove()}</div>
+
+          <input
+            type="range"
+            min={0}
+            max={lastPly}
+            value={ply}
+            onChange={(e) => goTo(Number(e.target.value))}
+            className="w-full"
+          />
+
+          <div className="flex flex-wrap items-center justify-center gap-2">
+            <button onClick={() => goTo(0)} disabled={ply === 0} className={controlClass} title="Về đầu">⏮</button>
+            <button onClick={() => goTo(ply - 1)} disabled={ply === 0} className={controlClass} title="Lùi một nước">◀</button>
+            <button onClick={togglePlay} className={controlClass} title={isPlaying ? 'Tạm dừng' : 'Tự chạy'}>
+              {isPlaying ? '⏸' : '▶️'}
+            </button>
+            <button onClick={() => goTo(ply + 1)} disabled={ply === lastPly} className={controlClass} title="Tiến một nước">▶</button>
+            <button onClick={() => goTo(lastPly)} disabled={ply === lastPly} className={controlClass} title="Tới cuối">⏭</button>
+
+            <select
+              value={speedMs}
+              onChange={(e) => setSpeedMs(Number(e.target.value))}
+              className="px-2 py-2 bg-gray-800 text-white rounded-lg text-sm"
+            >
+              {REPLAY_SPEEDS.map(speed => (
+                <option key={speed.ms} value={speed.ms}>{speed.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="text-center text-gray-300 text-sm">{ply} / {lastPly}</div>
+        </div>
+
+        <TranscriptLoader />
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPage;
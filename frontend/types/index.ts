@@ -158,13 +158,18 @@ export interface SurrenderConfirmation {
 
 // Player và Game state interfaces - Updated
 export interface GameState {
+  gameId: string; // id của ván, dùng để xem lại
   board: (number | null)[][];
   players: Player[];
   currentPlayer: number;
   gameStatus: 'waiting' | 'playing' | 'finished';
   scores: { [key: number]: number };
   validMoves: [number, number][];
-  timeLeft: number;
+  timeLeft: number; // số giây còn lại của bên đang đi (cả quỹ giờ nếu dùng đồng hồ cờ)
+  timeControl: TimeControl;
+  clocks?: { [key: number]: number }; // quỹ giờ còn lại của mỗi bên (chỉ với đồng hồ cờ)
+  timeoutPolicy: TimeoutPolicy;
+  timeouts: { [key: number]: number }; // số lần hết giờ liên tiếp của mỗi bên
   winnerId?: string;
   coinTransactions?: CoinTransaction[]; // Thêm thông tin giao dịch xu
   coinsAwarded?: CoinsAwarded; // Thêm thuộc tính này để fix lỗi
@@ -173,6 +178,181 @@ export interface GameState {
     playerId: string;
     playerName: string;
   };
+  perfectResult?: PerfectResult; // Kết quả nếu cả hai chơi hoàn hảo (cuối ván)
+  openingName?: string; // Tên khai cuộc (Tiger, Rose, Buffalo...)
+  hints?: HintState; // Chỉ có trong trận không xếp hạng (chơi với AI)
+  moveHistory?: MoveRecord[]; // Các nước đã đi theo thứ tự
+  analysis?: MoveAnnotation[]; // Phân tích từng nước, có sau khi ván kết thúc
+  pause?: PauseState; // Tạm dừng khi cả hai đồng ý
+  drawOffer?: { playerId: string; playerName: string }; // Lời cầu hòa đang chờ đối thủ, mất hiệu lực sau nước đi tiếp theo
+  undoRequest?: { playerId: string; playerName: string }; // Yêu cầu đi lại đang chờ đối thủ
+  undosLeft?: number; // Số lần đi lại còn lại, chỉ có khi chơi với AI
+  rematchRequest?: { playerId: string; playerName: string }; // Lời mời tái đấu sau ván, chờ đối thủ
+  series?: SeriesScore; // Tỷ số các ván hai người đã chơi trong phòng
+  match?: MatchState; // Trận nhiều ván (BO3, BO5); xu chỉ tính khi trận kết thúc
+  spectators?: Spectator[]; // Người đang xem phòng, không có ghế
+  allowSpectators?: boolean; // Chủ phòng có cho người khác vào xem không
+  ownerNickname?: string; // Người tạo phòng, chỉ người này đổi được cài đặt xem
+}
+
+// Người xem: nhận cập nhật ván đấu và chat nhưng không đi được
+export interface Spectator {
+  id: string;
+  displayName: string;
+  emoji: string;
+}
+
+export interface MatchState {
+  bestOf: number;
+  gameNumber: number; // ván hiện tại (hoặc vừa xong), bắt đầu từ 1
+  wins: { [nickname: string]: number };
+  draws: number;
+  finished: boolean;
+  winner?: string; // nickname; không có khi trận hòa
+}
+
+// Trùng với MATCH_FORMATS của server
+export const MATCH_FORMAT_OPTIONS: { bestOf: number; label: string }[] = [
+  { bestOf: 1, label: '1️⃣ Một ván' },
+  { bestOf: 3, label: '🥉 Thắng 2 trong 3 ván' },
+  { bestOf: 5, label: '🥇 Thắng 3 trong 5 ván' }
+];
+
+// Số ván thắng theo nickname và số ván hòa
+export interface SeriesScore {
+  wins: { [nickname: string]: number };
+  draws: number;
+}
+
+// 'requested': chờ đối thủ đồng ý, đồng hồ vẫn chạy; 'paused': đồng hồ dừng; 'resuming': đếm ngược trước khi chạy lại
+export interface PauseState {
+  status: 'requested' | 'paused' | 'resuming';
+  requestedBy: string;
+  requestedByName: string;
+  resumeAt?: number;
+}
+
+// Trùng với RESUME_COUNTDOWN_MS của server
+export const RESUME_COUNTDOWN_SECONDS = 3;
+
+// 'move': mỗi nước có baseSeconds, hết giờ thì mất lượt.
+// 'fischer' / 'bronstein': mỗi bên có quỹ baseSeconds, hết giờ là thua;
+// bonusSeconds được cộng sau mỗi nước (Fischer) hoặc trôi qua trước khi đồng hồ chạy (Bronstein).
+export interface TimeControl {
+  type: 'move' | 'fischer' | 'bronstein';
+  baseSeconds: number;
+  bonusSeconds: number;
+}
+
+// Khi hết giờ một nước: bỏ lượt, đi ngẫu nhiên một nước hợp lệ, hoặc bỏ lượt và thua sau maxTimeouts lần liên tiếp.
+// Chỉ áp dụng cho 'move'; với đồng hồ cờ hết giờ luôn là thua.
+export interface TimeoutPolicy {
+  type: 'skip' | 'random' | 'forfeit';
+  maxTimeouts?: number;
+}
+
+// Id trùng với TIMEOUT_POLICY_PRESETS của server
+export const TIMEOUT_POLICY_OPTIONS: { id: string; label: string }[] = [
+  { id: 'skip', label: '⏭️ Mất lượt' },
+  { id: 'random', label: '🎲 Đi ngẫu nhiên một nước' },
+  { id: 'forfeit-2', label: '🏳️ Xử thua sau 2 lần liên tiếp' },
+  { id: 'forfeit-3', label: '🏳️ Xử thua sau 3 lần liên tiếp' }
+];
+
+// Các kiểu đồng hồ khi tạo phòng - id trùng với TIME_CONTROL_PRESETS của server
+export const TIME_CONTROL_OPTIONS: { id: string; label: string }[] = [
+  { id: 'move-30', label: '⏱️ 30 giây mỗi nước' },
+  { id: 'fischer-3+2', label: '⚡ 3+2 (cộng giờ Fischer)' },
+  { id: 'fischer-5+3', label: '🕐 5+3 (cộng giờ Fischer)' },
+  { id: 'bronstein-5+3', label: '🕐 5+3 (trễ Bronstein)' },
+  { id: 'fischer-10+0', label: '🕙 10 phút' }
+];
+
+export interface MoveRecord {
+  player: 1 | 2;
+  row: number;         // -1 khi bỏ lượt
+  col: number;
+  flipped: [number, number][]; // các quân bị lật
+  timestamp: number;
+  timeLeft: number;    // số giây còn lại của lượt
+  pass?: PassReason;
+}
+
+export type PassReason = 'no-moves' | 'timeout' | 'disconnect';
+
+// Lượt đang chạy: server gửi một lần khi bắt đầu lượt, client tự đếm ngược tới deadline
+export interface TurnClock {
+  player: 1 | 2;
+  seconds: number;     // thời gian của lượt khi bắt đầu (quỹ giờ với đồng hồ cờ)
+  deadline: number;    // mốc hết giờ theo đồng hồ server (ms), đã tính cả Bronstein delay
+  serverNow: number;   // giờ server lúc gửi, để bù lệch đồng hồ
+}
+
+// Hết giờ nên server đi thay một nước ngẫu nhiên
+export interface AutoMove {
+  player: 1 | 2;
+  playerName: string;
+  row: number;
+  col: number;
+}
+
+// Server báo một bên bỏ lượt (sự kiện turnPassed)
+export interface TurnPassed {
+  player: 1 | 2;
+  playerName: string;
+  reason: PassReason;
+}
+
+// Một thế cờ khi xem lại; khung 0 là thế khai cuộc
+export interface ReplayFrame {
+  board: (number | null)[][];
+  scores: { 1: number; 2: number };
+  currentPlayer: 1 | 2;  // bên đi tiếp ở thế này
+  move?: Pick<MoveRecord, 'player' | 'row' | 'col' | 'pass'>; // nước dẫn tới thế này
+  flipped: [number, number][];
+}
+
+export type GameEndReason = 'normal' | 'surrender' | 'timeout' | 'disconnect' | 'agreement';
+
+// Ván đã kết thúc được server lưu vào kho ván đấu
+export interface ArchivedGame {
+  id: string;
+  players: (Pick<Player, 'nickname' | 'displayName' | 'emoji' | 'color' | 'pieceEmoji'> & { isAI?: boolean; aiDifficulty?: AIDifficulty })[];
+  scores: { 1: number; 2: number };
+  winner: 'black' | 'white' | 'draw';
+  reason: GameEndReason;
+  coinChanges: { nickname: string; oldCoins: number; newCoins: number; coinChange: number }[];
+  openingName?: string;
+  moveCount: number;
+  finishedAt: string;
+  moves: MoveRecord[];
+}
+
+export type MoveQuality = 'best' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface MoveAnnotation {
+  ply: number;
+  player: 1 | 2;
+  row: number;
+  col: number;
+  bestRow: number;
+  bestCol: number;
+  loss: number;      // % cơ hội thắng bị mất
+  discLoss?: number; // số quân mất (khi tàn cuộc được giải chính xác)
+  quality: MoveQuality;
+}
+
+export interface HintState {
+  limit: number;    // số lần gợi ý mỗi ván
+  coinCost: number; // số xu mỗi lần gợi ý (0 = miễn phí)
+  used: { [nickname: string]: number };
+}
+
+export interface PerfectResult {
+  winner: 'black' | 'white' | 'draw';
+  margin: number;
+  empties: number; // số ô trống lúc tính
+  toMove: 1 | 2;   // bên đi lúc tính
 }
 
 export interface Player {
@@ -217,7 +397,10 @@ export interface ChatMessage {
   timestamp: number;
 }
 
-export type AIDifficulty = 'easy' | 'medium' | 'hard';
+export type AIDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+// Màu quân người chơi chọn khi chơi với AI
+export type ColorChoice = 'black' | 'white' | 'random';
 
 // Login/Authentication interfaces
 export interface LoginRequest {
@@ -296,6 +479,38 @@ export const PIECE_EMOJI_OPTIONS = [
 ];
 
 // Utility functions
+
+// Đang dừng hoặc đang đếm ngược để chơi tiếp: không được đi quân
+export const isGamePaused = (gameState: GameState): boolean =>
+  !!gameState.pause && gameState.pause.status !== 'requested';
+
+// Tọa độ ô theo nhãn A-H / 1-8 mà Board hiển thị
+export const formatSquare = (row: number, col: number): string => `${'ABCDEFGH'[col]}${row + 1}`;
+
+// Đồng hồ dạng m:ss
+export const formatClock = (seconds: number): string => {
+  const safeSeconds = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(safeSeconds / 60)}:${String(safeSeconds % 60).padStart(2, '0')}`;
+};
+
+export const formatTimeControl = (timeControl: TimeControl): string => {
+  if (timeControl.type === 'move') return `${timeControl.baseSeconds} giây/nước`;
+  const minutes = timeControl.baseSeconds / 60;
+  return `${minutes}+${timeControl.bonusSeconds}${timeControl.type === 'bronstein' ? ' (Bronstein)' : ''}`;
+};
+
+export const formatTimeoutPolicy = (policy: TimeoutPolicy): string => {
+  if (policy.type === 'random') return 'hết giờ: đi ngẫu nhiên';
+  if (policy.type === 'forfeit') return `hết giờ ${policy.maxTimeouts} lần: thua`;
+  return 'hết giờ: mất lượt';
+};
+
+export const PASS_LABELS: { [key in PassReason]: string } = {
+  'no-moves': 'bỏ lượt (hết nước đi)',
+  timeout: 'bỏ lượt (hết giờ)',
+  disconnect: 'bỏ lượt (mất kết nối)'
+};
+
 export const getCoinChangeForResult = (result: 'win' | 'lose' | 'draw'): number => {
   switch (result) {
     case 'win':